@@ -0,0 +1,458 @@
+/**
+ * RoadCDN Analytics
+ *
+ * Hit and byte counting without KV writes on the read path:
+ * - Events buffered per isolate for a few seconds, sent in one batch per tenant from waitUntil
+ * - SQLite-backed Durable Objects, one per tenant, aggregate events into minute, hour and day rows
+ * - Stats grouped by time bucket and filtered by tenant, route, prefix, content type and country
+ */
+
+import { Context, MiddlewareHandler } from 'hono';
+import { AppEnv, Env } from './env';
+import { TenantStore } from './tenants';
+
+export type AnalyticsRoute = 'cdn' | 'image' | 'proxy' | 'zone';
+export type Granularity = 'minute' | 'hour' | 'day';
+
+export const ROUTES: AnalyticsRoute[] = ['cdn', 'image', 'proxy', 'zone'];
+export const GRANULARITIES: Granularity[] = ['minute', 'hour', 'day'];
+
+export interface HitEvent {
+  tenant?: string;
+  route: AnalyticsRoute;
+  path: string;
+  status: number;
+  cacheStatus?: string; // X-Cache
+  contentType?: string;
+  country?: string;
+  bytes: number;
+  timestamp: number;
+}
+
+export interface StatsQuery {
+  granularity: Granularity;
+  from: number; // ms
+  to: number; // ms
+  tenant?: string;
+  route?: AnalyticsRoute;
+  prefix?: string;
+  contentType?: string; // exact type, or "image/*"
+  country?: string;
+  top?: number;
+}
+
+export interface UsageQuery {
+  from: number; // ms, start of a UTC day
+  to: number; // ms, exclusive
+  tenant: string; // "" for the shared host
+  prefix?: string;
+}
+
+export type TrafficUsage = {
+  egressBytes: number;
+  transforms: number; // image requests served without a cached transform
+};
+
+type Counters = {
+  requests: number;
+  hits: number;
+  bytes: number;
+};
+
+export interface Stats {
+  totals: Counters & { hitRatio: number };
+  statuses: Record<string, number>;
+  cache: Record<string, number>; // requests per X-Cache status
+  topPaths: (Counters & { path: string })[];
+  series: (Counters & { bucket: number; hitRatio: number })[];
+}
+
+// Send the buffer once it holds this many events, or this long after the
+// first of them, from the waitUntil of the request that recorded it
+const FLUSH_EVENTS = 100;
+const FLUSH_DELAY = 5_000;
+
+// Events beyond this are dropped while the aggregators are unreachable
+const MAX_PENDING = 5000;
+
+// Cache statuses served without reading the origin
+const HIT_STATUSES = ['HIT', 'STALE', 'REVALIDATED', 'COALESCED'];
+
+const BUCKET_MS: Record<Granularity, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+const RETENTION_MS: Record<Granularity, number> = {
+  minute: 86_400_000, // 1 day
+  hour: 35 * 86_400_000, // 35 days
+  day: 400 * 86_400_000, // ~13 months
+};
+
+// How often the aggregator drops expired buckets
+const CLEANUP_INTERVAL = 3_600_000;
+
+// Buffered in the isolate between requests
+let pending: HitEvent[] = [];
+let flushScheduled = false;
+
+/**
+ * Aggregator shard for a tenant; the shared host keeps the 'global' shard
+ */
+function shard(tenant: string | undefined): string {
+  return tenant ? `tenant:${tenant}` : 'global';
+}
+
+function aggregator(env: Env, name: string): DurableObjectStub {
+  return env.ANALYTICS.get(env.ANALYTICS.idFromName(name));
+}
+
+async function flush(env: Env, name: string, batch: HitEvent[]): Promise<void> {
+  try {
+    const response = await aggregator(env, name).fetch('https://analytics/ingest', {
+      method: 'POST',
+      body: JSON.stringify(batch),
+    });
+    if (!response.ok) throw new Error(`Aggregator responded with ${response.status}`);
+  } catch (e) {
+    // Keep the batch for the next flush, within limits
+    pending = [...batch, ...pending];
+    trimPending(e);
+  }
+}
+
+function trimPending(reason?: unknown): void {
+  if (pending.length > MAX_PENDING) {
+    console.error(`Analytics: dropped ${pending.length - MAX_PENDING} events`, reason ?? '');
+    pending = pending.slice(-MAX_PENDING);
+  }
+}
+
+/**
+ * Send the buffer, one batch per aggregator
+ */
+async function flushPending(env: Env): Promise<void> {
+  const batches = new Map<string, HitEvent[]>();
+  for (const event of pending) {
+    const name = shard(event.tenant);
+    batches.set(name, [...batches.get(name) ?? [], event]);
+  }
+  pending = [];
+
+  await Promise.all([...batches].map(([name, batch]) => flush(env, name, batch)));
+}
+
+/**
+ * Buffer an event. The buffer is sent once full, or from the waitUntil of the
+ * request that started it, so events are sent even if no other request follows.
+ */
+export function recordHit(env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>, event: HitEvent): void {
+  pending.push(event);
+  trimPending();
+
+  if (pending.length >= FLUSH_EVENTS) {
+    ctx.waitUntil(flushPending(env));
+  } else if (!flushScheduled) {
+    flushScheduled = true;
+    ctx.waitUntil(new Promise(resolve => setTimeout(resolve, FLUSH_DELAY)).then(() => {
+      flushScheduled = false;
+      return flushPending(env);
+    }));
+  }
+}
+
+/**
+ * Record every read served by a route
+ */
+export function trackHits(route: AnalyticsRoute): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    await next();
+
+    if (c.req.method !== 'GET' && c.req.method !== 'HEAD') return;
+
+    const path = route === 'proxy' ? c.req.query('url') || '' : c.req.path.replace(`/${route}/`, '');
+    recordResponse(c, route, path, c.res);
+  };
+}
+
+/**
+ * Record a read answered outside the tracked routes, e.g. by a site's own hostname
+ */
+export function recordResponse(c: Context<AppEnv>, route: AnalyticsRoute, path: string, response: Response): void {
+  recordHit(c.env, c.executionCtx, {
+    tenant: c.get('tenant')?.id,
+    route,
+    path,
+    status: response.status,
+    cacheStatus: response.headers.get('X-Cache') ?? undefined,
+    contentType: response.headers.get('Content-Type')?.split(';')[0].trim().toLowerCase(),
+    country: (c.req.raw.cf as IncomingRequestCfProperties | undefined)?.country,
+    bytes: c.req.method === 'HEAD' ? 0 : parseInt(response.headers.get('Content-Length') || '0') || 0,
+    timestamp: Date.now(),
+  });
+}
+
+async function shardStats(env: Env, name: string, query: StatsQuery): Promise<Stats> {
+  const response = await aggregator(env, name).fetch('https://analytics/stats', {
+    method: 'POST',
+    body: JSON.stringify(query),
+  });
+  if (!response.ok) throw new Error(`Aggregator responded with ${response.status}`);
+  return await response.json<Stats>();
+}
+
+function sumCounters(a: Counters, b: Counters): Counters {
+  return { requests: a.requests + b.requests, hits: a.hits + b.hits, bytes: a.bytes + b.bytes };
+}
+
+function sumCounts(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const sums = { ...a };
+  for (const [key, count] of Object.entries(b)) sums[key] = (sums[key] ?? 0) + count;
+  return sums;
+}
+
+/**
+ * Combine stats from several shards
+ */
+function mergeStats(shards: Stats[], top: number): Stats {
+  const empty: Counters = { requests: 0, hits: 0, bytes: 0 };
+  const totals = shards.reduce<Counters>((sums, stats) => sumCounters(sums, stats.totals), empty);
+  const paths = new Map<string, Counters>();
+  const buckets = new Map<number, Counters>();
+
+  for (const stats of shards) {
+    for (const { path, ...counters } of stats.topPaths) {
+      paths.set(path, sumCounters(paths.get(path) ?? empty, counters));
+    }
+    for (const { bucket, hitRatio: _, ...counters } of stats.series) {
+      buckets.set(bucket, sumCounters(buckets.get(bucket) ?? empty, counters));
+    }
+  }
+
+  return {
+    totals: { ...totals, hitRatio: hitRatio(totals) },
+    statuses: shards.reduce((sums, stats) => sumCounts(sums, stats.statuses), {}),
+    cache: shards.reduce((sums, stats) => sumCounts(sums, stats.cache), {}),
+    topPaths: [...paths].map(([path, counters]) => ({ path, ...counters }))
+      .sort((a, b) => b.requests - a.requests)
+      .slice(0, top),
+    series: [...buckets].sort(([a], [b]) => a - b)
+      .map(([bucket, counters]) => ({ bucket, ...counters, hitRatio: hitRatio(counters) })),
+  };
+}
+
+/**
+ * Query aggregated stats: one tenant's shard, or every shard when no tenant is given
+ */
+export async function queryStats(env: Env, query: StatsQuery): Promise<Stats> {
+  if (query.tenant !== undefined) {
+    return await shardStats(env, shard(query.tenant), query);
+  }
+
+  const tenants = await new TenantStore(env.CACHE).list();
+  const names = ['global', ...tenants.map(tenant => shard(tenant.id))];
+  const shards = await Promise.all(names.map(name => shardStats(env, name, query)));
+  return mergeStats(shards, query.top ?? 10);
+}
+
+/**
+ * Egress and transforms from the day rollups
+ */
+export async function queryUsage(env: Env, query: UsageQuery): Promise<TrafficUsage> {
+  const response = await aggregator(env, shard(query.tenant)).fetch('https://analytics/usage', {
+    method: 'POST',
+    body: JSON.stringify(query),
+  });
+  if (!response.ok) throw new Error(`Aggregator responded with ${response.status}`);
+  return await response.json<TrafficUsage>();
+}
+
+/**
+ * Parse a time query parameter: an ISO date or epoch milliseconds
+ */
+export function parseTime(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  return /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+}
+
+function hitRatio(counters: Counters): number {
+  return counters.requests ? Math.round((counters.hits / counters.requests) * 10000) / 10000 : 0;
+}
+
+/**
+ * Durable Object folding hit batches into minute, hour and day rows in SQLite,
+ * one row per bucket and dimension combination
+ */
+export class AnalyticsStore implements DurableObject {
+  private storage: DurableObjectStorage;
+  private sql: SqlStorage;
+
+  constructor(state: DurableObjectState) {
+    this.storage = state.storage;
+    this.sql = state.storage.sql;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS hits (
+        granularity TEXT NOT NULL,
+        bucket INTEGER NOT NULL,
+        tenant TEXT NOT NULL,
+        route TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        country TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        cache_status TEXT NOT NULL,
+        requests INTEGER NOT NULL,
+        hits INTEGER NOT NULL,
+        bytes INTEGER NOT NULL,
+        PRIMARY KEY (granularity, bucket, tenant, route, path, content_type, country, status, cache_status)
+      )
+    `);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/ingest') {
+      await this.ingest(await request.json<HitEvent[]>());
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/stats') {
+      return Response.json(this.stats(await request.json<StatsQuery>()));
+    }
+
+    if (request.method === 'POST' && url.pathname === '/usage') {
+      return Response.json(this.usage(await request.json<UsageQuery>()));
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private async ingest(events: HitEvent[]): Promise<void> {
+    for (const granularity of GRANULARITIES) {
+      for (const event of events) {
+        const bucket = event.timestamp - (event.timestamp % BUCKET_MS[granularity]);
+        const hit = HIT_STATUSES.includes(event.cacheStatus ?? '') ? 1 : 0;
+
+        this.sql.exec(
+          `INSERT INTO hits VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+           ON CONFLICT DO UPDATE SET
+             requests = requests + 1,
+             hits = hits + excluded.hits,
+             bytes = bytes + excluded.bytes`,
+          granularity,
+          bucket,
+          event.tenant || '',
+          event.route,
+          event.path,
+          event.contentType || '',
+          event.country || '',
+          event.status,
+          event.cacheStatus || '',
+          hit,
+          event.bytes,
+        );
+      }
+    }
+
+    if (await this.storage.getAlarm() === null) {
+      await this.storage.setAlarm(Date.now() + CLEANUP_INTERVAL);
+    }
+  }
+
+  private stats(query: StatsQuery): Stats {
+    const step = BUCKET_MS[query.granularity];
+    const conditions = ['granularity = ?', 'bucket >= ?', 'bucket <= ?'];
+    const bindings: SqlStorageValue[] = [query.granularity, query.from - (query.from % step), query.to];
+
+    if (query.tenant !== undefined) {
+      conditions.push('tenant = ?');
+      bindings.push(query.tenant);
+    }
+    if (query.route) {
+      conditions.push('route = ?');
+      bindings.push(query.route);
+    }
+    if (query.prefix) {
+      conditions.push('instr(path, ?) = 1');
+      bindings.push(query.prefix);
+    }
+    if (query.contentType?.endsWith('/*')) {
+      conditions.push('content_type LIKE ?');
+      bindings.push(`${query.contentType.slice(0, -1)}%`);
+    } else if (query.contentType) {
+      conditions.push('content_type = ?');
+      bindings.push(query.contentType.toLowerCase());
+    }
+    if (query.country) {
+      conditions.push('country = ?');
+      bindings.push(query.country.toUpperCase());
+    }
+
+    const where = conditions.join(' AND ');
+    const sums = 'COALESCE(SUM(requests), 0) AS requests, COALESCE(SUM(hits), 0) AS hits, '
+      + 'COALESCE(SUM(bytes), 0) AS bytes';
+
+    const totals = this.sql.exec<Counters>(`SELECT ${sums} FROM hits WHERE ${where}`, ...bindings).one();
+
+    const breakdown = (column: string) => Object.fromEntries(
+      this.sql.exec<{ key: string | number; requests: number }>(
+        `SELECT ${column} AS key, SUM(requests) AS requests FROM hits WHERE ${where} GROUP BY ${column}`,
+        ...bindings,
+      ).toArray().filter(row => row.key !== '').map(row => [String(row.key), row.requests]),
+    );
+
+    const topPaths = this.sql.exec<Counters & { path: string }>(
+      `SELECT path, ${sums} FROM hits WHERE ${where} GROUP BY path ORDER BY requests DESC LIMIT ?`,
+      ...bindings,
+      query.top ?? 10,
+    ).toArray();
+
+    const series = this.sql.exec<Counters & { bucket: number }>(
+      `SELECT bucket, ${sums} FROM hits WHERE ${where} GROUP BY bucket ORDER BY bucket`,
+      ...bindings,
+    ).toArray().map(row => ({ ...row, hitRatio: hitRatio(row) }));
+
+    return {
+      totals: { ...totals, hitRatio: hitRatio(totals) },
+      statuses: breakdown('status'),
+      cache: breakdown('cache_status'),
+      topPaths,
+      series,
+    };
+  }
+
+  private usage(query: UsageQuery): TrafficUsage {
+    const conditions = ["granularity = 'day'", 'bucket >= ?', 'bucket < ?', 'tenant = ?'];
+    const bindings: SqlStorageValue[] = [query.from, query.to, query.tenant];
+
+    if (query.prefix) {
+      conditions.push('instr(path, ?) = 1');
+      bindings.push(query.prefix);
+    }
+
+    return this.sql.exec<TrafficUsage>(
+      `SELECT COALESCE(SUM(bytes), 0) AS egressBytes,
+         COALESCE(SUM(CASE WHEN route = 'image' AND cache_status = 'MISS' THEN requests ELSE 0 END), 0) AS transforms
+       FROM hits WHERE ${conditions.join(' AND ')}`,
+      ...bindings,
+    ).one();
+  }
+
+  /**
+   * Drop buckets past their retention
+   */
+  async alarm(): Promise<void> {
+    for (const granularity of GRANULARITIES) {
+      this.sql.exec(
+        'DELETE FROM hits WHERE granularity = ? AND bucket < ?',
+        granularity,
+        Date.now() - RETENTION_MS[granularity],
+      );
+    }
+
+    await this.storage.setAlarm(Date.now() + CLEANUP_INTERVAL);
+  }
+}
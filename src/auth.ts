@@ -0,0 +1,400 @@
+/**
+ * RoadCDN API Keys
+ *
+ * Features:
+ * - Keys stored as SHA-256 hashes in KV, secrets shown once
+ * - Scopes: read, write, purge, admin (admin implies all)
+ * - Optional path prefix restrictions ("tenant-a/")
+ * - Expiry, revocation and rotation with a grace period
+ * - Bootstrap admin key from the ADMIN_API_KEY secret
+ */
+
+import { Hono, Context, MiddlewareHandler } from 'hono';
+import { AppEnv } from './env';
+
+export type Scope = 'read' | 'write' | 'purge' | 'admin';
+
+export const SCOPES: Scope[] = ['read', 'write', 'purge', 'admin'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  hash: string;
+  scopes: Scope[];
+  prefixes?: string[];
+  createdAt: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  rotatedTo?: string;
+}
+
+// How long each isolate may reuse a key record it read from KV.
+// Revocations take up to this long to reach every location.
+const KEY_CACHE_TTL = 60;
+
+// Old secrets keep working this long after a rotation, unless told otherwise
+const DEFAULT_ROTATION_GRACE = 86400; // 24 hours
+
+const KEY_PREFIX = 'rcdn_';
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${KEY_PREFIX}${encoded}`;
+}
+
+/**
+ * Whether a key carries a scope
+ */
+export function hasScope(key: ApiKeyRecord, scope: Scope): boolean {
+  return key.scopes.includes('admin') || key.scopes.includes(scope);
+}
+
+/**
+ * Whether a key may act on a path
+ */
+export function canAccessPath(key: ApiKeyRecord, path: string): boolean {
+  if (!key.prefixes || key.prefixes.length === 0) return true;
+  return key.prefixes.some(prefix => path.startsWith(prefix));
+}
+
+/**
+ * Whether a key restricted to `prefixes` grants nothing beyond `issuer`
+ */
+export function withinPrefixes(issuer: ApiKeyRecord, prefixes: string[] | undefined): boolean {
+  if (!issuer.prefixes || issuer.prefixes.length === 0) return true;
+  if (!prefixes || prefixes.length === 0) return false;
+  return prefixes.every(prefix => canAccessPath(issuer, prefix));
+}
+
+/**
+ * Why a key can't be used right now, if it can't
+ */
+function keyProblem(key: ApiKeyRecord, now: number = Date.now()): string | null {
+  if (key.revokedAt) return 'API key revoked';
+  if (key.expiresAt && key.expiresAt <= now) return 'API key expired';
+  return null;
+}
+
+/**
+ * API key storage
+ */
+export class ApiKeyStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Issue a new key. The secret is only returned here.
+   */
+  async issue(options: {
+    name: string;
+    scopes: Scope[];
+    prefixes?: string[];
+    expiresAt?: number;
+  }): Promise<{ key: ApiKeyRecord; secret: string }> {
+    const secret = generateSecret();
+
+    const key: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: options.name,
+      hash: await sha256Hex(secret),
+      scopes: options.scopes,
+      prefixes: options.prefixes,
+      createdAt: Date.now(),
+      expiresAt: options.expiresAt,
+    };
+
+    await this.save(key);
+    return { key, secret };
+  }
+
+  /**
+   * Look up a key by its secret
+   */
+  async verify(secret: string): Promise<ApiKeyRecord | null> {
+    const hash = await sha256Hex(secret);
+    return await this.kv.get<ApiKeyRecord>(`apikey:${hash}`, {
+      type: 'json',
+      cacheTtl: KEY_CACHE_TTL,
+    });
+  }
+
+  /**
+   * Look up a key by id
+   */
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const hash = await this.kv.get(`apikey-id:${id}`);
+    if (!hash) return null;
+    return await this.kv.get(`apikey:${hash}`, 'json') as ApiKeyRecord | null;
+  }
+
+  /**
+   * List all keys
+   */
+  async list(): Promise<ApiKeyRecord[]> {
+    const keys: ApiKeyRecord[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: 'apikey:', cursor });
+      for (const entry of list.keys) {
+        const key = await this.kv.get(entry.name, 'json') as ApiKeyRecord | null;
+        if (key) keys.push(key);
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return keys.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const key = await this.get(id);
+    if (!key) return null;
+
+    key.revokedAt = Date.now();
+    await this.save(key);
+    return key;
+  }
+
+  /**
+   * Revoke every key still in use, e.g. when the tenant they belong to is removed
+   */
+  async revokeAll(): Promise<number> {
+    const active = (await this.list()).filter(key => !key.revokedAt);
+    const now = Date.now();
+    await Promise.all(active.map(key => this.save({ ...key, revokedAt: now })));
+    return active.length;
+  }
+
+  /**
+   * Replace a key with a new secret carrying the same grants.
+   * The old secret keeps working for `graceSeconds`.
+   */
+  async rotate(
+    id: string,
+    graceSeconds: number = DEFAULT_ROTATION_GRACE,
+  ): Promise<{ key: ApiKeyRecord; secret: string; previous: ApiKeyRecord } | null> {
+    const previous = await this.get(id);
+    if (!previous || keyProblem(previous)) return null;
+
+    const { key, secret } = await this.issue({
+      name: previous.name,
+      scopes: previous.scopes,
+      prefixes: previous.prefixes,
+      expiresAt: previous.expiresAt,
+    });
+
+    const graceEnd = Date.now() + graceSeconds * 1000;
+    previous.expiresAt = Math.min(previous.expiresAt ?? graceEnd, graceEnd);
+    previous.rotatedTo = key.id;
+    await this.save(previous);
+
+    return { key, secret, previous };
+  }
+
+  private async save(key: ApiKeyRecord): Promise<void> {
+    await Promise.all([
+      this.kv.put(`apikey:${key.hash}`, JSON.stringify(key)),
+      this.kv.put(`apikey-id:${key.id}`, key.hash),
+    ]);
+  }
+}
+
+/**
+ * Key as shown by the admin API, without its hash
+ */
+export function publicKey(key: ApiKeyRecord) {
+  const { hash, ...rest } = key;
+  return { ...rest, status: keyProblem(key) ? (key.revokedAt ? 'revoked' : 'expired') : 'active' };
+}
+
+/**
+ * Secret presented with a request
+ */
+function presentedSecret(c: Context): string | undefined {
+  const auth = c.req.header('Authorization');
+  if (auth?.startsWith('Bearer ')) return auth.slice(7).trim();
+  return c.req.header('X-API-Key');
+}
+
+/**
+ * Resolve the key a request was made with, including the ADMIN_API_KEY bootstrap key
+ */
+async function authenticate(c: Context<AppEnv>): Promise<ApiKeyRecord | string> {
+  const secret = presentedSecret(c);
+  if (!secret) return 'API key required';
+
+  if (c.env.ADMIN_API_KEY) {
+    // Compare hashes so the comparison time doesn't depend on the secret
+    const [presented, bootstrap] = await Promise.all([sha256Hex(secret), sha256Hex(c.env.ADMIN_API_KEY)]);
+    if (presented === bootstrap) {
+      return { id: 'bootstrap', name: 'ADMIN_API_KEY', hash: bootstrap, scopes: ['admin'], createdAt: 0 };
+    }
+  }
+
+  const key = await new ApiKeyStore(c.env.CACHE).verify(secret);
+  if (!key) return 'Invalid API key';
+
+  return keyProblem(key) ?? key;
+}
+
+/**
+ * Require an API key with `scope`. `paths` names the asset paths the request
+ * acts on, checked against the key's prefix restrictions.
+ */
+export function requireScope(
+  scope: Scope,
+  paths?: (c: Context<AppEnv>) => string[] | Promise<string[]>,
+): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const key = c.get('apiKey') ?? await authenticate(c);
+
+    if (typeof key === 'string') {
+      return c.json({ error: key }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    if (!hasScope(key, scope)) {
+      return c.json({ error: `API key lacks the ${scope} scope` }, 403);
+    }
+
+    if (paths) {
+      const denied = (await paths(c)).find(path => !canAccessPath(key, path));
+      if (denied !== undefined) {
+        return c.json({ error: 'API key not allowed for path', path: denied }, 403);
+      }
+    }
+
+    c.set('apiKey', key);
+    await next();
+  };
+}
+
+/**
+ * API key admin routes. Mount behind requireScope('admin').
+ */
+export function createKeyRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // A key restricted to prefixes only manages keys restricted within them
+  const manages = (c: Context<AppEnv>, key: ApiKeyRecord) => {
+    const caller = c.get('apiKey');
+    return !caller || withinPrefixes(caller, key.prefixes);
+  };
+  const notManaged = (c: Context<AppEnv>) =>
+    c.json({ error: 'Key is not restricted within this key\'s prefixes', allowed: c.get('apiKey')?.prefixes }, 403);
+
+  // List keys
+  app.get('/admin/keys', async (c) => {
+    const keys = await new ApiKeyStore(c.env.CACHE).list();
+    return c.json({ keys: keys.filter(key => manages(c, key)).map(publicKey) });
+  });
+
+  // Issue a key
+  app.post('/admin/keys', async (c) => {
+    const body = await c.req.json<{
+      name: string;
+      scopes: Scope[];
+      prefixes?: string[];
+      expiresIn?: number; // seconds
+    }>();
+
+    if (!body.name) {
+      return c.json({ error: 'name required' }, 400);
+    }
+
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0
+      || body.scopes.some(scope => !SCOPES.includes(scope))) {
+      return c.json({ error: `scopes must be a non-empty list of ${SCOPES.join(', ')}` }, 400);
+    }
+
+    if (body.prefixes && (!Array.isArray(body.prefixes) || body.prefixes.some(p => typeof p !== 'string' || !p))) {
+      return c.json({ error: 'prefixes must be a list of non-empty strings' }, 400);
+    }
+
+    if (body.expiresIn !== undefined && (!Number.isInteger(body.expiresIn) || body.expiresIn <= 0)) {
+      return c.json({ error: 'expiresIn must be a positive whole number of seconds' }, 400);
+    }
+
+    // A key restricted to prefixes can only issue keys restricted within them
+    const issuer = c.get('apiKey');
+    if (issuer && !withinPrefixes(issuer, body.prefixes)) {
+      return c.json({ error: 'prefixes must fall within the issuing key\'s prefixes', allowed: issuer.prefixes }, 403);
+    }
+
+    const { key, secret } = await new ApiKeyStore(c.env.CACHE).issue({
+      name: body.name,
+      scopes: body.scopes,
+      prefixes: body.prefixes,
+      expiresAt: body.expiresIn ? Date.now() + body.expiresIn * 1000 : undefined,
+    });
+
+    return c.json({ key: publicKey(key), secret }, 201);
+  });
+
+  // Get a key
+  app.get('/admin/keys/:id', async (c) => {
+    const key = await new ApiKeyStore(c.env.CACHE).get(c.req.param('id'));
+    if (!key) {
+      return c.json({ error: 'Key not found' }, 404);
+    }
+    if (!manages(c, key)) {
+      return notManaged(c);
+    }
+    return c.json({ key: publicKey(key) });
+  });
+
+  // Rotate a key
+  app.post('/admin/keys/:id/rotate', async (c) => {
+    const body: { gracePeriod?: number } = c.req.header('Content-Type')?.includes('json')
+      ? await c.req.json()
+      : {};
+
+    const store = new ApiKeyStore(c.env.CACHE);
+    const target = await store.get(c.req.param('id'));
+    if (target && !manages(c, target)) {
+      return notManaged(c);
+    }
+
+    const result = await store.rotate(c.req.param('id'), body.gracePeriod);
+    if (!result) {
+      return c.json({ error: 'Key not found or no longer active' }, 404);
+    }
+
+    return c.json({
+      key: publicKey(result.key),
+      secret: result.secret,
+      previous: publicKey(result.previous),
+    }, 201);
+  });
+
+  // Revoke a key
+  app.delete('/admin/keys/:id', async (c) => {
+    const store = new ApiKeyStore(c.env.CACHE);
+    const target = await store.get(c.req.param('id'));
+    if (target && !manages(c, target)) {
+      return notManaged(c);
+    }
+
+    const key = await store.revoke(c.req.param('id'));
+    if (!key) {
+      return c.json({ error: 'Key not found' }, 404);
+    }
+    return c.json({ revoked: true, key: publicKey(key) });
+  });
+
+  return app;
+}
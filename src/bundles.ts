@@ -0,0 +1,258 @@
+/**
+ * RoadCDN Bundles
+ *
+ * Reads tar, gzipped tar and zip archives uploaded as deployments:
+ * - Entries are indexed and validated before anything is extracted
+ * - Tar entries are views into the upload; zip entries are inflated one at a time
+ * - Paths are normalised; absolute paths and `..` segments are rejected
+ */
+
+export type BundleFormat = 'tar' | 'tgz' | 'zip';
+
+export interface BundleEntry {
+  path: string;
+  offset: number; // start of the entry's data in the archive
+  size: number; // stored bytes
+  unpackedSize: number;
+  deflated: boolean;
+}
+
+// Limits per bundle: each file is one R2 write, and the archive is held in memory
+export const MAX_BUNDLE_FILES = 900;
+export const MAX_BUNDLE_BYTES = 64 * 1024 * 1024; // unpacked
+
+const TAR_BLOCK = 512;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+
+/**
+ * Archive format from the Content-Type, falling back to magic bytes
+ */
+export function bundleFormat(contentType: string | undefined, bytes: Uint8Array): BundleFormat | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+
+  if (type === 'application/zip' || type === 'application/x-zip-compressed') return 'zip';
+  if (type === 'application/gzip' || type === 'application/x-gzip' || type === 'application/x-tgz') return 'tgz';
+  if (type === 'application/x-tar') return 'tar';
+
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'zip';
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'tgz';
+  if (bytes.length >= 263 && text(bytes, 257, 5) === 'ustar') return 'tar';
+  return null;
+}
+
+/**
+ * Decompress a gzipped tar, refusing to unpack past the size limit
+ */
+export async function gunzipBundle(bytes: Uint8Array): Promise<Uint8Array | string> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      total += value.byteLength;
+      if (total > MAX_BUNDLE_BYTES) {
+        await reader.cancel();
+        return `Bundle unpacks to more than ${MAX_BUNDLE_BYTES} bytes`;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return 'Bundle is not valid gzip';
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+/**
+ * Normalise an archive path. Returns null for paths that would escape the deployment.
+ */
+export function normalizeBundlePath(name: string): string | null {
+  const segments = name.replace(/\\/g, '/').split('/').filter(s => s !== '' && s !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+}
+
+/**
+ * Files in an archive, or an error message
+ */
+export function indexBundle(format: 'tar' | 'zip', bytes: Uint8Array): BundleEntry[] | string {
+  const entries = format === 'zip' ? indexZip(bytes) : indexTar(bytes);
+  if (typeof entries === 'string') return entries;
+
+  if (entries.length === 0) return 'Bundle contains no files';
+  if (entries.length > MAX_BUNDLE_FILES) return `Bundle may contain at most ${MAX_BUNDLE_FILES} files`;
+
+  const seen = new Set<string>();
+  let total = 0;
+  for (const entry of entries) {
+    if (seen.has(entry.path)) return `Duplicate file in bundle: ${entry.path}`;
+    seen.add(entry.path);
+    total += entry.unpackedSize;
+  }
+  if (total > MAX_BUNDLE_BYTES) return `Bundle unpacks to more than ${MAX_BUNDLE_BYTES} bytes`;
+
+  return entries;
+}
+
+/**
+ * Contents of one indexed entry, or an error message. Inflating stops as soon
+ * as the output passes the entry's declared size, whose total the index capped.
+ */
+export async function extractEntry(bytes: Uint8Array, entry: BundleEntry): Promise<Uint8Array | string> {
+  const data = bytes.subarray(entry.offset, entry.offset + entry.size);
+  if (!entry.deflated) return data;
+
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const out = new Uint8Array(entry.unpackedSize);
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (total + value.byteLength > entry.unpackedSize) {
+        await reader.cancel();
+        return `${entry.path} unpacks to more than its declared ${entry.unpackedSize} bytes`;
+      }
+      out.set(value, total);
+      total += value.byteLength;
+    }
+  } catch {
+    return `${entry.path} is not valid deflate data`;
+  }
+
+  if (total !== entry.unpackedSize) return `${entry.path} unpacks to fewer bytes than declared`;
+  return out;
+}
+
+function text(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Parse the tar headers. Supports ustar prefixes, GNU long names and pax paths.
+ */
+function indexTar(bytes: Uint8Array): BundleEntry[] | string {
+  const entries: BundleEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK <= bytes.length) {
+    // Two zero blocks end the archive; one is enough to stop reading
+    if (bytes[offset] === 0) break;
+
+    const sizeField = text(bytes, offset + 124, 12).trim();
+    if (!/^[0-7]*$/.test(sizeField)) return 'Bundle is not a valid tar archive';
+
+    const size = parseInt(sizeField || '0', 8);
+    const type = String.fromCharCode(bytes[offset + 156]);
+    const dataStart = offset + TAR_BLOCK;
+    if (dataStart + size > bytes.length) return 'Bundle is truncated';
+
+    let name = text(bytes, offset, 100);
+    if (text(bytes, offset + 257, 5) === 'ustar') {
+      const prefix = text(bytes, offset + 345, 155);
+      if (prefix) name = `${prefix}/${name}`;
+    }
+
+    if (type === 'L') {
+      // GNU long name for the next entry
+      longName = text(bytes, dataStart, size);
+    } else if (type === 'x') {
+      // pax extended header; only the path is used
+      const match = text(bytes, dataStart, size).match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+      if (match) longName = match[1];
+    } else {
+      if (type === '0' || type === '\0' || type === '7') {
+        const path = normalizeBundlePath(longName ?? name);
+        if (!path) return `Unsafe path in bundle: ${longName ?? name}`;
+        entries.push({ path, offset: dataStart, size, unpackedSize: size, deflated: false });
+      }
+      longName = undefined;
+    }
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the zip central directory. Entries must be stored or deflated.
+ */
+function indexZip(bytes: Uint8Array): BundleEntry[] | string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits after the central directory, followed by a comment of up to 64 KiB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return 'Bundle is not a valid zip archive';
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) return 'ZIP64 bundles are not supported';
+
+  const entries: BundleEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) {
+      return 'Bundle is not a valid zip archive';
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory
+
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      return 'ZIP64 bundles are not supported';
+    }
+    if (flags & 0x1) return `Encrypted file in bundle: ${name}`;
+    if (method !== 0 && method !== 8) return `Unsupported compression for ${name}`;
+
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== ZIP_LOCAL_HEADER) {
+      return 'Bundle is not a valid zip archive';
+    }
+
+    // The local header's name and extra field may differ in length from the central copy
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > bytes.length) return 'Bundle is truncated';
+
+    const path = normalizeBundlePath(name);
+    if (!path) return `Unsafe path in bundle: ${name}`;
+
+    entries.push({ path, offset: dataStart, size: compressedSize, unpackedSize: size, deflated: method === 8 });
+  }
+
+  return entries;
+}
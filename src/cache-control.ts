@@ -0,0 +1,106 @@
+/**
+ * RoadCDN Cache-Control
+ *
+ * Parsing and formatting of Cache-Control, including the
+ * stale-while-revalidate / stale-if-error extensions (RFC 5861).
+ */
+
+export interface CacheControl {
+  public?: boolean;
+  private?: boolean;
+  noStore?: boolean;
+  noCache?: boolean;
+  mustRevalidate?: boolean;
+  immutable?: boolean;
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+/**
+ * How long an entry is fresh, and how long it may be served stale afterwards
+ * (all in seconds)
+ */
+export interface Freshness {
+  ttl: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+}
+
+/**
+ * Parse a Cache-Control header. Unknown directives are ignored.
+ */
+export function parseCacheControl(header: string | null | undefined): CacheControl {
+  const cc: CacheControl = {};
+  if (!header) return cc;
+
+  for (const part of header.split(',')) {
+    const [rawName, rawValue] = part.split('=', 2);
+    const name = rawName.trim().toLowerCase();
+    const value = rawValue?.trim().replace(/^"|"$/g, '');
+    const seconds = value !== undefined && /^\d+$/.test(value) ? parseInt(value) : undefined;
+
+    switch (name) {
+      case 'public': cc.public = true; break;
+      case 'private': cc.private = true; break;
+      case 'no-store': cc.noStore = true; break;
+      case 'no-cache': cc.noCache = true; break;
+      case 'must-revalidate': cc.mustRevalidate = true; break;
+      case 'immutable': cc.immutable = true; break;
+      case 'max-age': cc.maxAge = seconds; break;
+      case 's-maxage': cc.sMaxAge = seconds; break;
+      case 'stale-while-revalidate': cc.staleWhileRevalidate = seconds; break;
+      case 'stale-if-error': cc.staleIfError = seconds; break;
+    }
+  }
+
+  return cc;
+}
+
+/**
+ * Edge freshness from a Cache-Control header, falling back to defaults.
+ * s-maxage wins over max-age since the edge is a shared cache.
+ */
+export function resolveFreshness(cc: CacheControl, defaults: Freshness): Freshness {
+  return {
+    ttl: cc.sMaxAge ?? cc.maxAge ?? defaults.ttl,
+    staleWhileRevalidate: cc.mustRevalidate ? 0 : cc.staleWhileRevalidate ?? defaults.staleWhileRevalidate,
+    staleIfError: cc.mustRevalidate ? 0 : cc.staleIfError ?? defaults.staleIfError,
+  };
+}
+
+/**
+ * Format a Cache-Control header value
+ */
+export function formatCacheControl(cc: CacheControl): string {
+  const parts: string[] = [];
+
+  if (cc.noStore) parts.push('no-store');
+  if (cc.noCache) parts.push('no-cache');
+  if (cc.private) parts.push('private');
+  else if (cc.public) parts.push('public');
+  if (cc.maxAge !== undefined) parts.push(`max-age=${cc.maxAge}`);
+  if (cc.sMaxAge !== undefined) parts.push(`s-maxage=${cc.sMaxAge}`);
+  if (cc.mustRevalidate) parts.push('must-revalidate');
+  if (cc.immutable) parts.push('immutable');
+  if (cc.staleWhileRevalidate) parts.push(`stale-while-revalidate=${cc.staleWhileRevalidate}`);
+  if (cc.staleIfError) parts.push(`stale-if-error=${cc.staleIfError}`);
+
+  return parts.join(', ');
+}
+
+/**
+ * Default freshness from worker configuration
+ */
+export function defaultFreshness(env: {
+  DEFAULT_TTL: string;
+  STALE_WHILE_REVALIDATE?: string;
+  STALE_IF_ERROR?: string;
+}): Freshness {
+  return {
+    ttl: parseInt(env.DEFAULT_TTL),
+    staleWhileRevalidate: parseInt(env.STALE_WHILE_REVALIDATE || '0'),
+    staleIfError: parseInt(env.STALE_IF_ERROR || '0'),
+  };
+}
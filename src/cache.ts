@@ -0,0 +1,198 @@
+/**
+ * RoadCDN Edge Cache
+ *
+ * Binary-safe KV cache tier:
+ * - Bodies stored as raw bytes, never re-encoded
+ * - Entry metadata kept in KV metadata, separate from the body
+ * - Per-entry size limits (oversized objects bypass the cache)
+ * - Fresh / stale-while-revalidate / stale-if-error windows per entry
+ */
+
+import { Freshness, defaultFreshness } from './cache-control';
+import { ContentEncoding, allVariantCacheKeys } from './compression';
+
+// KV rejects values larger than this
+export const KV_MAX_VALUE_BYTES = 25 * 1024 * 1024;
+
+// KV rejects metadata larger than this once serialized
+export const KV_MAX_METADATA_BYTES = 1024;
+
+// KV's minimum expirationTtl
+const KV_MIN_TTL = 60;
+
+export interface CacheMeta {
+  contentType: string;
+  etag: string; // "" for proxied responses the origin gave none
+  size: number;
+  lastModified?: number;
+  encoding?: ContentEncoding;
+  source?: string; // R2 key the body came from, when not the request path
+  private?: boolean; // served only with a signed URL
+  immutable?: boolean; // fingerprinted; never changes
+  vary?: string[]; // proxied: request headers the origin varies on
+  headers?: Record<string, string>; // proxied: origin headers passed back to clients
+  createdAt: number;
+  freshUntil: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+}
+
+/**
+ * fresh: serve as is
+ * stale: serve, refresh in the background
+ * expired: revalidate first, serve only if the origin fails (stale-if-error)
+ */
+export type EntryState = 'fresh' | 'stale' | 'expired';
+
+export interface CachedObject {
+  meta: CacheMeta;
+  body: ArrayBuffer;
+}
+
+export interface EdgeCacheOptions {
+  maxEntryBytes: number;
+  freshness: Freshness;
+}
+
+/**
+ * Where an entry sits in its freshness lifetime
+ */
+export function entryState(meta: CacheMeta, now: number = Date.now()): EntryState {
+  if (now < meta.freshUntil) return 'fresh';
+  if (now < meta.freshUntil + meta.staleWhileRevalidate * 1000) return 'stale';
+  return 'expired';
+}
+
+/**
+ * Whether an entry may stand in for a failed origin fetch
+ */
+export function usableOnError(meta: CacheMeta, now: number = Date.now()): boolean {
+  return now < meta.freshUntil + meta.staleIfError * 1000;
+}
+
+/**
+ * KV-backed cache for bodies of any content type
+ */
+export class EdgeCache {
+  private kv: KVNamespace;
+  private options: EdgeCacheOptions;
+
+  constructor(kv: KVNamespace, options: EdgeCacheOptions) {
+    this.kv = kv;
+    this.options = {
+      ...options,
+      maxEntryBytes: Math.min(options.maxEntryBytes, KV_MAX_VALUE_BYTES),
+    };
+  }
+
+  /**
+   * Whether a body of this size may be cached
+   */
+  fits(size: number): boolean {
+    return size <= this.options.maxEntryBytes;
+  }
+
+  /**
+   * Read an entry with its metadata
+   */
+  async get(key: string): Promise<CachedObject | null> {
+    const { value, metadata } = await this.kv.getWithMetadata<CacheMeta>(key, 'arrayBuffer');
+
+    if (!value || !metadata) {
+      return null;
+    }
+
+    return { meta: metadata, body: value };
+  }
+
+  /**
+   * Store an entry, starting a new freshness lifetime.
+   * Returns false when the body is too large to cache.
+   * Streams must come with a known size in `meta.size`.
+   */
+  async put(
+    key: string,
+    body: ArrayBuffer | ReadableStream,
+    meta: Omit<CacheMeta, 'freshUntil' | 'staleWhileRevalidate' | 'staleIfError'>,
+    freshness: Partial<Freshness> = {},
+  ): Promise<boolean> {
+    const size = body instanceof ArrayBuffer ? body.byteLength : meta.size;
+
+    if (!this.fits(size)) {
+      if (body instanceof ReadableStream) await body.cancel();
+      return false;
+    }
+
+    await this.write(key, body, this.buildMeta({ ...meta, size }, freshness));
+    return true;
+  }
+
+  /**
+   * Entry metadata for a new freshness lifetime starting now
+   */
+  buildMeta(
+    meta: Omit<CacheMeta, 'freshUntil' | 'staleWhileRevalidate' | 'staleIfError'>,
+    freshness: Partial<Freshness> = {},
+  ): CacheMeta {
+    const defaults = this.options.freshness;
+
+    return {
+      ...meta,
+      freshUntil: Date.now() + (freshness.ttl ?? defaults.ttl) * 1000,
+      staleWhileRevalidate: freshness.staleWhileRevalidate ?? defaults.staleWhileRevalidate,
+      staleIfError: freshness.staleIfError ?? defaults.staleIfError,
+    };
+  }
+
+  private async write(key: string, body: ArrayBuffer | ReadableStream, metadata: CacheMeta): Promise<void> {
+    if (JSON.stringify(metadata).length > KV_MAX_METADATA_BYTES) {
+      throw new Error(`Cache metadata too large for ${key}`);
+    }
+
+    // Keep the entry around for as long as any stale window allows
+    const staleWindow = Math.max(metadata.staleWhileRevalidate, metadata.staleIfError) * 1000;
+    const lifetime = Math.ceil((metadata.freshUntil + staleWindow - Date.now()) / 1000);
+
+    await this.kv.put(key, body, {
+      metadata,
+      expirationTtl: Math.max(lifetime, KV_MIN_TTL),
+    });
+  }
+
+  /**
+   * Mark an entry fresh again after the origin confirmed it is unchanged
+   */
+  async revalidate(key: string, entry: CachedObject, freshness: Partial<Freshness> = {}): Promise<void> {
+    await this.put(key, entry.body, entry.meta, freshness);
+  }
+
+  /**
+   * Remove an entry
+   */
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key);
+  }
+}
+
+/**
+ * Create the cache tier from worker configuration
+ */
+export function createEdgeCache(env: {
+  CACHE: KVNamespace;
+  DEFAULT_TTL: string;
+  STALE_WHILE_REVALIDATE?: string;
+  STALE_IF_ERROR?: string;
+  CACHE_MAX_ENTRY_BYTES?: string;
+}): EdgeCache {
+  return new EdgeCache(env.CACHE, {
+    maxEntryBytes: parseInt(env.CACHE_MAX_ENTRY_BYTES || '') || KV_MAX_VALUE_BYTES,
+    freshness: defaultFreshness(env),
+  });
+}
+
+/**
+ * Drop every cached encoding of an asset
+ */
+export async function invalidateAsset(kv: KVNamespace, path: string): Promise<void> {
+  await Promise.all(allVariantCacheKeys(`cache:${path}`).map(key => kv.delete(key)));
+}
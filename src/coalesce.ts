@@ -0,0 +1,311 @@
+/**
+ * RoadCDN Request Coalescing
+ *
+ * One upstream fetch per cache key while concurrent misses wait for it:
+ * - Requests in the same isolate share the leader's result
+ * - Requests in other isolates wait on a lease held by a Durable Object per key,
+ *   then read what the leader cached
+ * - Leases lapse so a stalled leader holds up a key for seconds, not forever
+ * - Requests served a leader's result are marked X-Cache: COALESCED
+ * - The same leases run other per-key work, like manifest rewrites, one at a time
+ * - Background jobs take a stored lease so no two invocations run the same job
+ */
+
+// How long a leader may hold a key before waiting requests stop waiting on it
+const LEASE_MS = 15_000;
+
+// A job lock forgets the job this long after its last run
+const JOB_LEASE_RETENTION = 86400 * 1000; // 1 day
+
+/**
+ * The right to fill a key. Released exactly once, with what was cached for the
+ * requests waiting on it, or null when they should fetch for themselves.
+ */
+export interface FillLease<T> {
+  release(value: T | null): void;
+}
+
+/**
+ * A claim on a key: the value another request filled it with, or the lease to fill it
+ */
+export type Claim<T> = { coalesced: true; value: T } | { coalesced: false; lease: FillLease<T> };
+
+// Fills under way in this isolate, by lock name
+const inflight = new Map<string, Promise<unknown>>();
+
+// For requests that found nothing to wait for and fetch on their own
+const UNCOORDINATED: FillLease<never> = { release: () => {} };
+
+function within<T>(promise: Promise<T | null>, ms: number): Promise<T | null> {
+  return Promise.race([promise, new Promise<null>(resolve => setTimeout(() => resolve(null), ms))]);
+}
+
+/**
+ * Coalesces fills of cache keys, within a tenant
+ */
+export class Coalescer {
+  private locks: DurableObjectNamespace;
+  private ctx: Pick<ExecutionContext, 'waitUntil'>;
+  private scope: string;
+
+  constructor(locks: DurableObjectNamespace, ctx: Pick<ExecutionContext, 'waitUntil'>, scope = '') {
+    this.locks = locks;
+    this.ctx = ctx;
+    this.scope = scope;
+  }
+
+  /**
+   * Claim a key. When another request is filling it, waits for that request and
+   * returns what it cached; `reread` reads it back from the cache when the fill
+   * happened in another isolate. Otherwise the caller leads and must release.
+   */
+  async claim<T>(key: string, reread: () => Promise<T | null>): Promise<Claim<T>> {
+    const name = `${this.scope}:${key}`;
+
+    const local = inflight.get(name) as Promise<T | null> | undefined;
+    if (local) {
+      const value = await within(local, LEASE_MS);
+      return value !== null ? { coalesced: true, value } : { coalesced: false, lease: UNCOORDINATED };
+    }
+
+    let settle!: (value: T | null) => void;
+    const shared = new Promise<T | null>(resolve => { settle = resolve; });
+    inflight.set(name, shared);
+
+    const finish = (value: T | null) => {
+      settle(value);
+      if (inflight.get(name) === shared) inflight.delete(name);
+    };
+
+    const lock = await this.acquire(name);
+
+    if (lock.released) {
+      const value = await reread().catch(() => null);
+      if (value !== null) {
+        finish(value);
+        return { coalesced: true, value };
+      }
+    }
+
+    let released = false;
+    return {
+      coalesced: false,
+      lease: {
+        release: (value) => {
+          if (released) return;
+          released = true;
+          finish(value);
+          if (lock.token) this.ctx.waitUntil(this.release(name, lock.token));
+        },
+      },
+    };
+  }
+
+  /**
+   * Run `fill` for a key unless another request is already filling it, in which
+   * case return that request's result. Results `shareable` rejects (and errors)
+   * leave waiting requests to fetch for themselves.
+   */
+  async run<T>(
+    key: string,
+    reread: () => Promise<T | null>,
+    fill: () => Promise<T>,
+    shareable: (value: T) => boolean = () => true,
+  ): Promise<{ value: T; coalesced: boolean }> {
+    const claim = await this.claim(key, reread);
+    if (claim.coalesced) return claim;
+
+    try {
+      const value = await fill();
+      claim.lease.release(shareable(value) ? value : null);
+      return { value, coalesced: false };
+    } catch (e) {
+      claim.lease.release(null);
+      throw e;
+    }
+  }
+
+  /**
+   * Run `fn` once no other request holds the key, waiting for each holder in
+   * turn. Runs overlap only when the lock is unreachable or a lease lapses.
+   */
+  async exclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const name = `${this.scope}:${key}`;
+
+    // A release wakes every waiting request; each then queues for the lease again
+    let lock = await this.acquire(name);
+    while (lock.released) lock = await this.acquire(name);
+
+    try {
+      return await fn();
+    } finally {
+      if (lock.token) await this.release(name, lock.token);
+    }
+  }
+
+  private lock(name: string): DurableObjectStub {
+    return this.locks.get(this.locks.idFromName(name));
+  }
+
+  /**
+   * Take the lease, or wait until its holder releases it. The lease of a holder
+   * that lapses passes to the next waiting request.
+   */
+  private async acquire(name: string): Promise<{ token?: string; released?: boolean }> {
+    try {
+      const response = await this.lock(name).fetch('https://lock/acquire', {
+        method: 'POST',
+        signal: AbortSignal.timeout(LEASE_MS * 2),
+      });
+      if (!response.ok) throw new Error(`Lock responded with ${response.status}`);
+      return await response.json<{ token?: string; released?: boolean }>();
+    } catch {
+      // Without the lock, requests in different isolates each fetch for themselves
+      return {};
+    }
+  }
+
+  private async release(name: string, token: string): Promise<void> {
+    try {
+      await this.lock(name).fetch('https://lock/release', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      });
+    } catch {
+      // The lease lapses on its own
+    }
+  }
+}
+
+/**
+ * The right to run a background job. `savedAt` is when the previous holder
+ * last saved the job; a copy of the job older than that is stale.
+ */
+export interface JobLease {
+  token: string;
+  savedAt: number;
+}
+
+function jobLock(locks: DurableObjectNamespace, name: string): DurableObjectStub {
+  return locks.get(locks.idFromName(`job:${name}`));
+}
+
+/**
+ * Take the lease on a job for `ms`. Null when another invocation holds it or
+ * the lock can't be reached, in which case the job is left for a later run.
+ */
+export async function takeJobLease(locks: DurableObjectNamespace, name: string, ms: number): Promise<JobLease | null> {
+  try {
+    const response = await jobLock(locks, name).fetch('https://lock/lease', {
+      method: 'POST',
+      body: JSON.stringify({ ms }),
+    });
+    return response.ok ? await response.json<JobLease>() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Give up a job lease, recording when the job was last saved
+ */
+export async function releaseJobLease(locks: DurableObjectNamespace, name: string, token: string, savedAt: number): Promise<void> {
+  try {
+    await jobLock(locks, name).fetch('https://lock/unlease', {
+      method: 'POST',
+      body: JSON.stringify({ token, savedAt }),
+    });
+  } catch {
+    // The lease lapses on its own
+  }
+}
+
+type StoredLease = JobLease & { until: number };
+
+/**
+ * Durable Object holding the lease on one cache key. Requests for a held key
+ * wait until it is released, or are handed the lease in turn when it lapses.
+ * Job leases are kept in storage instead, so they survive the object's eviction.
+ */
+export class FillLock implements DurableObject {
+  private storage: DurableObjectStorage;
+  private holder: string | null = null;
+  private waiting: ((response: Response) => void)[] = [];
+  private expiry: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(state: DurableObjectState) {
+    this.storage = state.storage;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/lease') {
+      const { ms } = await request.json<{ ms: number }>();
+      const lease = await this.storage.get<StoredLease>('lease');
+      if (lease && lease.until > Date.now()) {
+        return Response.json({ error: 'Lease held' }, { status: 409 });
+      }
+
+      const granted: StoredLease = { token: crypto.randomUUID(), savedAt: lease?.savedAt ?? 0, until: Date.now() + ms };
+      await this.storage.put('lease', granted);
+      return Response.json({ token: granted.token, savedAt: granted.savedAt });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/unlease') {
+      const { token, savedAt } = await request.json<{ token: string; savedAt: number }>();
+      const lease = await this.storage.get<StoredLease>('lease');
+
+      if (lease?.token === token) {
+        await this.storage.put('lease', { ...lease, savedAt, until: 0 });
+        await this.storage.setAlarm(Date.now() + JOB_LEASE_RETENTION);
+      }
+
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/acquire') {
+      if (this.holder === null) return this.grant();
+      return await new Promise<Response>(resolve => this.waiting.push(resolve));
+    }
+
+    if (request.method === 'POST' && url.pathname === '/release') {
+      const { token } = await request.json<{ token: string }>();
+
+      if (token === this.holder) {
+        this.holder = null;
+        clearTimeout(this.expiry);
+
+        const waiting = this.waiting;
+        this.waiting = [];
+        for (const resolve of waiting) resolve(Response.json({ released: true }));
+      }
+
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  /**
+   * Forget a job that stopped running
+   */
+  async alarm(): Promise<void> {
+    await this.storage.deleteAll();
+  }
+
+  private grant(): Response {
+    const token = crypto.randomUUID();
+    this.holder = token;
+    this.expiry = setTimeout(() => this.lapse(token), LEASE_MS);
+    return Response.json({ token });
+  }
+
+  private lapse(token: string): void {
+    if (this.holder !== token) return;
+    this.holder = null;
+
+    const next = this.waiting.shift();
+    if (next) next(this.grant());
+  }
+}
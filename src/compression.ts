@@ -0,0 +1,215 @@
+/**
+ * RoadCDN Compression
+ *
+ * Accept-Encoding negotiation with stored variants:
+ * - gzip variants generated once and stored next to the original (`<path>.gz`)
+ * - Precompressed uploads (`app.js.br`, `app.js.gz`) recognised as variants
+ * - Per-request variant selection by q-value
+ */
+
+export type ContentEncoding = 'br' | 'gzip';
+export type Encoding = ContentEncoding | 'identity';
+
+// Variant key suffix per encoding, in server preference order
+const VARIANT_SUFFIXES: Record<ContentEncoding, string> = {
+  br: '.br',
+  gzip: '.gz',
+};
+
+// Larger originals are served uncompressed rather than compressed in the worker
+const MAX_COMPRESS_BYTES = 10 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  htm: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'application/javascript; charset=utf-8',
+  mjs: 'application/javascript; charset=utf-8',
+  json: 'application/json',
+  map: 'application/json',
+  webmanifest: 'application/manifest+json',
+  xml: 'application/xml',
+  txt: 'text/plain; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  svg: 'image/svg+xml',
+  wasm: 'application/wasm',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+};
+
+/**
+ * Content type implied by a path's extension
+ */
+export function contentTypeFor(path: string): string | undefined {
+  const ext = path.split('/').pop()?.split('.').pop()?.toLowerCase();
+  return ext ? CONTENT_TYPES[ext] : undefined;
+}
+
+/**
+ * Whether a content type benefits from compression
+ */
+export function isCompressible(contentType: string | undefined): boolean {
+  if (!contentType) return false;
+  const type = contentType.split(';')[0].trim().toLowerCase();
+
+  return type.startsWith('text/')
+    || type === 'application/javascript'
+    || type === 'application/json'
+    || type === 'application/xml'
+    || type === 'application/wasm'
+    || type === 'application/vnd.ms-fontobject'
+    || type === 'image/svg+xml'
+    || type === 'font/ttf'
+    || type === 'font/otf'
+    || type.endsWith('+json')
+    || type.endsWith('+xml');
+}
+
+/**
+ * Encodings the client accepts, best first. Always ends with identity.
+ */
+export function negotiateEncoding(acceptEncoding: string | null | undefined): Encoding[] {
+  if (!acceptEncoding) return ['identity'];
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+    weights.set(name.trim(), q ? parseFloat(q.slice(2)) || 0 : 1);
+  }
+
+  const wildcard = weights.get('*');
+  const accepted = (Object.keys(VARIANT_SUFFIXES) as ContentEncoding[])
+    .map((encoding, order) => ({ encoding, order, q: weights.get(encoding) ?? wildcard ?? 0 }))
+    .filter(e => e.q > 0)
+    .sort((a, b) => b.q - a.q || a.order - b.order)
+    .map(e => e.encoding);
+
+  return [...accepted, 'identity'];
+}
+
+/**
+ * R2 key of an asset's variant
+ */
+export function variantKey(path: string, encoding: ContentEncoding): string {
+  return `${path}${VARIANT_SUFFIXES[encoding]}`;
+}
+
+/**
+ * Recognise a precompressed upload, e.g. `app.js.br` for `app.js`
+ */
+export function parseVariantPath(path: string): { base: string; encoding: ContentEncoding } | null {
+  for (const [encoding, suffix] of Object.entries(VARIANT_SUFFIXES) as [ContentEncoding, string][]) {
+    if (path.endsWith(suffix)) {
+      const base = path.slice(0, -suffix.length);
+      if (isCompressible(contentTypeFor(base))) {
+        return { base, encoding };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Cache key of the entry serving one negotiated encoding
+ */
+export function variantCacheKey(cacheKey: string, encoding: Encoding): string {
+  return encoding === 'identity' ? cacheKey : `${cacheKey}#${encoding}`;
+}
+
+/**
+ * Every cache key an asset may be stored under
+ */
+export function allVariantCacheKeys(cacheKey: string): string[] {
+  return [cacheKey, ...(Object.keys(VARIANT_SUFFIXES) as ContentEncoding[]).map(e => variantCacheKey(cacheKey, e))];
+}
+
+/**
+ * gzip a body. Brotli is not available in the runtime, so br variants
+ * only ever come from uploads.
+ */
+export async function gzip(body: ReadableStream): Promise<ArrayBuffer> {
+  return new Response(body.pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+}
+
+export interface Variant {
+  encoding: ContentEncoding;
+  object: R2Object;
+  body?: ReadableStream;
+}
+
+/**
+ * Find the best stored variant of an asset for the accepted encodings,
+ * generating the gzip variant on first use. Returns null when the
+ * uncompressed original should be served.
+ */
+export async function findVariant(
+  bucket: R2Bucket,
+  path: string,
+  base: R2Object,
+  accepted: Encoding[],
+  withBody: boolean,
+): Promise<Variant | null> {
+  if (!isCompressible(base.httpMetadata?.contentType) || base.httpMetadata?.contentEncoding) {
+    return null;
+  }
+
+  for (const encoding of accepted) {
+    if (encoding === 'identity') return null;
+
+    const key = variantKey(path, encoding);
+    const object = withBody ? await bucket.get(key) : await bucket.head(key);
+
+    // Variants are only valid for the original they were made from. Uploads
+    // without the original's etag (made before it existed, or before etags were
+    // recorded) count only when they are newer than the original.
+    const baseEtag = object?.customMetadata?.baseEtag;
+    const outdated = object !== null
+      && (baseEtag !== undefined ? baseEtag !== base.etag : object.uploaded < base.uploaded);
+
+    if (object && !outdated) {
+      return { encoding, object, body: 'body' in object ? (object as R2ObjectBody).body : undefined };
+    }
+
+    if (object && 'body' in object) {
+      await (object as R2ObjectBody).body.cancel();
+    }
+
+    if (encoding === 'gzip' && base.size <= MAX_COMPRESS_BYTES) {
+      const original = await bucket.get(path, { onlyIf: { etagMatches: base.etag } });
+      if (!original || !('body' in original)) return null;
+
+      const compressed = await gzip((original as R2ObjectBody).body);
+      const stored = await bucket.put(key, compressed, {
+        httpMetadata: { ...base.httpMetadata, contentEncoding: 'gzip' },
+        customMetadata: {
+          variantOf: path,
+          encoding,
+          generated: 'true',
+          baseEtag: base.etag,
+        },
+      });
+
+      return { encoding, object: stored, body: withBody ? new Response(compressed).body! : undefined };
+    }
+  }
+
+  return null;
+}
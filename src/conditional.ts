@@ -0,0 +1,171 @@
+/**
+ * RoadCDN Conditional Requests
+ *
+ * RFC 9110 precondition handling:
+ * - Strong and weak entity-tag comparison
+ * - If-Match / If-None-Match with lists and `*`
+ * - If-Modified-Since / If-Unmodified-Since
+ * - 304 Not Modified responses with the required headers
+ */
+
+export interface Validators {
+  exists: boolean;
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * proceed: serve or apply the request
+ * not-modified: answer 304 (GET/HEAD only)
+ * failed: answer 412
+ */
+export type PreconditionResult = 'proceed' | 'not-modified' | 'failed';
+
+// Headers a 304 must carry when they would have been sent with a 200
+const NOT_MODIFIED_HEADERS = [
+  'Cache-Control',
+  'Content-Location',
+  'Date',
+  'ETag',
+  'Expires',
+  'Last-Modified',
+  'Vary',
+  'X-Cache',
+];
+
+const CONDITIONAL_HEADERS = ['If-Match', 'If-None-Match', 'If-Modified-Since', 'If-Unmodified-Since'];
+
+/**
+ * Parse an If-Match / If-None-Match value into entity tags, or '*'
+ */
+export function parseEntityTags(header: string): string[] | '*' {
+  if (header.trim() === '*') return '*';
+
+  return header.match(/(?:W\/)?"[^"]*"/g) || [];
+}
+
+function opaqueTag(etag: string): string {
+  return etag.startsWith('W/') ? etag.slice(2) : etag;
+}
+
+/**
+ * Strong comparison: both tags strong and identical
+ */
+export function strongMatch(a: string, b: string): boolean {
+  return !a.startsWith('W/') && !b.startsWith('W/') && a === b;
+}
+
+/**
+ * Weak comparison: opaque tags identical, weakness ignored
+ */
+export function weakMatch(a: string, b: string): boolean {
+  return opaqueTag(a) === opaqueTag(b);
+}
+
+/**
+ * HTTP dates only carry whole seconds
+ */
+function parseHttpDate(value: string): number | null {
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.floor(date / 1000);
+}
+
+function seconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Whether a request carries any precondition headers
+ */
+export function hasPreconditions(request: Request): boolean {
+  return CONDITIONAL_HEADERS.some(name => request.headers.has(name));
+}
+
+/**
+ * Evaluate preconditions in the order given by RFC 9110 section 13.2.2
+ */
+export function evaluatePreconditions(request: Request, validators: Validators): PreconditionResult {
+  const isRead = request.method === 'GET' || request.method === 'HEAD';
+  const ifMatch = request.headers.get('If-Match');
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  const ifUnmodifiedSince = request.headers.get('If-Unmodified-Since');
+
+  // Step 1: If-Match, strong comparison
+  if (ifMatch !== null) {
+    const tags = parseEntityTags(ifMatch);
+    const matched = tags === '*'
+      ? validators.exists
+      : !!validators.etag && tags.some(tag => strongMatch(tag, validators.etag!));
+
+    if (!matched) return 'failed';
+  } else if (ifUnmodifiedSince !== null && validators.lastModified) {
+    // Step 2: If-Unmodified-Since, only without If-Match
+    const date = parseHttpDate(ifUnmodifiedSince);
+    if (date !== null && seconds(validators.lastModified) > date) return 'failed';
+  }
+
+  // Step 3: If-None-Match, weak comparison
+  if (ifNoneMatch !== null) {
+    const tags = parseEntityTags(ifNoneMatch);
+    const matched = tags === '*'
+      ? validators.exists
+      : !!validators.etag && tags.some(tag => weakMatch(tag, validators.etag!));
+
+    if (matched) return isRead ? 'not-modified' : 'failed';
+  } else if (isRead && ifModifiedSince !== null && validators.lastModified) {
+    // Step 4: If-Modified-Since, only without If-None-Match
+    const date = parseHttpDate(ifModifiedSince);
+    if (date !== null && seconds(validators.lastModified) <= date) return 'not-modified';
+  }
+
+  return 'proceed';
+}
+
+/**
+ * Build a 304 keeping only the headers a 304 may carry
+ */
+export function notModified(headers: Headers): Response {
+  const kept = new Headers();
+
+  for (const name of NOT_MODIFIED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) kept.set(name, value);
+  }
+
+  return new Response(null, { status: 304, headers: kept });
+}
+
+/**
+ * Answer a read request's preconditions, or null to serve normally
+ */
+export function conditionalResponse(request: Request, validators: Validators, headers: Headers): Response | null {
+  const result = evaluatePreconditions(request, validators);
+
+  if (result === 'not-modified') {
+    return notModified(headers);
+  }
+
+  if (result === 'failed') {
+    return new Response(JSON.stringify({ error: 'Precondition failed' }), {
+      status: 412,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Write preconditions in a form R2 can enforce atomically (`onlyIf`)
+ */
+export function writeConditions(request: Request): Headers | undefined {
+  const conditions = new Headers();
+
+  for (const name of ['If-Match', 'If-None-Match', 'If-Unmodified-Since']) {
+    const value = request.headers.get(name);
+    if (value !== null) conditions.set(name, value);
+  }
+
+  return [...conditions.keys()].length > 0 ? conditions : undefined;
+}
@@ -0,0 +1,637 @@
+/**
+ * RoadCDN Deployments
+ *
+ * Atomic site deploys:
+ * - A deployment is an immutable set of files under `__deployments/<id>/`
+ * - Upload a tar, gzipped tar or zip bundle in one request, or files one by one and finalize
+ * - Aliases (`app/production`) point at a deployment and switch with a single KV write
+ * - Rollback moves an alias back; unaliased deployments are removed by retention
+ */
+
+import { Hono, Context } from 'hono';
+import { AppEnv } from './env';
+import { requireScope, canAccessPath } from './auth';
+import { contentTypeFor } from './compression';
+import { bundleFormat, gunzipBundle, indexBundle, extractEntry, normalizeBundlePath, BundleEntry } from './bundles';
+
+export const DEPLOYMENT_PREFIX = '__deployments/';
+
+export type DeploymentStatus = 'pending' | 'ready' | 'deleting';
+
+export interface Deployment {
+  id: string;
+  site: string;
+  status: DeploymentStatus;
+  fileCount: number;
+  totalBytes: number;
+  createdAt: number;
+  finalizedAt?: number;
+  keyId?: string; // API key that created it
+  message?: string; // free-form, e.g. a commit SHA
+}
+
+type DeploymentSummary = Pick<Deployment, 'id' | 'site' | 'status' | 'createdAt'>;
+
+export interface Alias {
+  deploymentId: string;
+  updatedAt: number;
+  history: string[]; // deployments it pointed at before, newest first
+}
+
+export interface DeploymentRetention {
+  keep: number; // newest deployments kept per site
+  maxAgeDays?: number;
+}
+
+/**
+ * Where an aliased request is served from
+ */
+export interface ResolvedAlias {
+  alias: string;
+  deploymentId: string;
+  key: string; // R2 key of the file
+}
+
+const RETENTION_KEY = 'cdn:deployment-retention';
+
+// How long each location may reuse an alias lookup. Switches reach every
+// location within this time, each seeing the old or the new deployment whole.
+const ALIAS_CACHE_TTL = 60;
+
+const DEFAULT_RETENTION: DeploymentRetention = { keep: 10 };
+
+// Earlier targets remembered per alias for rollback
+const ALIAS_HISTORY = 20;
+
+// Deployments never finalized are removed after this long
+const PENDING_TTL = 86400 * 1000; // 1 day
+
+// Concurrent R2 writes while unpacking a bundle
+const WRITE_CONCURRENCY = 10;
+
+const NAME_SEGMENT = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Site names are one path segment, e.g. "app"
+ */
+function isSiteName(site: string): boolean {
+  return NAME_SEGMENT.test(site);
+}
+
+/**
+ * Alias names are the site followed by one or more segments, e.g. "app/production"
+ */
+function isAliasName(name: string, site?: string): boolean {
+  const segments = name.split('/');
+  return segments.length >= 2
+    && segments.every(segment => NAME_SEGMENT.test(segment))
+    && (site === undefined || segments[0] === site);
+}
+
+function fileKey(id: string, path: string): string {
+  return `${DEPLOYMENT_PREFIX}${id}/${path}`;
+}
+
+// One KV key per alias, so switches of different aliases never overwrite each other
+function aliasKey(name: string): string {
+  return `alias:${name}`;
+}
+
+/**
+ * Deployments, their files in R2 and the aliases pointing at them
+ */
+export class DeploymentStore {
+  private bucket: R2Bucket;
+  private kv: KVNamespace;
+
+  constructor(bucket: R2Bucket, kv: KVNamespace) {
+    this.bucket = bucket;
+    this.kv = kv;
+  }
+
+  /**
+   * Start an empty deployment that files are uploaded into
+   */
+  async create(site: string, options: { keyId?: string; message?: string } = {}): Promise<Deployment> {
+    const now = Date.now();
+    const deployment: Deployment = {
+      id: `${now.toString(36).padStart(9, '0')}-${crypto.randomUUID().slice(0, 8)}`,
+      site,
+      status: 'pending',
+      fileCount: 0,
+      totalBytes: 0,
+      createdAt: now,
+      keyId: options.keyId,
+      message: options.message,
+    };
+
+    await this.save(deployment);
+    return deployment;
+  }
+
+  async get(id: string): Promise<Deployment | null> {
+    return await this.kv.get<Deployment>(`deployment:${id}`, 'json');
+  }
+
+  /**
+   * Deployments newest first, from listing metadata only
+   */
+  async list(site?: string): Promise<DeploymentSummary[]> {
+    const deployments: DeploymentSummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list<Omit<DeploymentSummary, 'id'>>({ prefix: 'deployment:', cursor });
+      for (const key of list.keys) {
+        if (!key.metadata || (site && key.metadata.site !== site)) continue;
+        deployments.push({ id: key.name.slice('deployment:'.length), ...key.metadata });
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    // IDs start with the creation time
+    return deployments.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Store one file of a pending deployment
+   */
+  async putFile(id: string, path: string, body: ArrayBuffer | Uint8Array, contentType?: string): Promise<R2Object> {
+    return await this.bucket.put(fileKey(id, path), body, {
+      httpMetadata: { contentType: contentType || contentTypeFor(path) || 'application/octet-stream' },
+      customMetadata: { deployment: id },
+    });
+  }
+
+  /**
+   * Write every file of an indexed bundle. Returns an error message when an
+   * entry can't be extracted; files already written are left to the caller.
+   */
+  async unpack(id: string, bytes: Uint8Array, entries: BundleEntry[]): Promise<string | null> {
+    let next = 0;
+    let error: string | null = null;
+    const writer = async () => {
+      while (next < entries.length && !error) {
+        const entry = entries[next++];
+        const contents = await extractEntry(bytes, entry);
+        if (typeof contents === 'string') {
+          error = contents;
+          return;
+        }
+        await this.putFile(id, entry.path, contents);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(WRITE_CONCURRENCY, entries.length) }, writer));
+    return error;
+  }
+
+  /**
+   * Seal a pending deployment. Its files can't change afterwards.
+   */
+  async finalize(deployment: Deployment): Promise<Deployment | null> {
+    let fileCount = 0;
+    let totalBytes = 0;
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.bucket.list({ prefix: fileKey(deployment.id, ''), cursor });
+      for (const object of list.objects) {
+        fileCount++;
+        totalBytes += object.size;
+      }
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+
+    if (fileCount === 0) return null;
+
+    const finalized: Deployment = { ...deployment, status: 'ready', fileCount, totalBytes, finalizedAt: Date.now() };
+    await this.save(finalized);
+    return finalized;
+  }
+
+  /**
+   * Delete a deployment and its files. It is marked first so a run cut short
+   * is finished by the next garbage collection.
+   */
+  async remove(id: string): Promise<boolean> {
+    const deployment = await this.get(id);
+    if (!deployment) return false;
+
+    if (deployment.status !== 'deleting') {
+      await this.save({ ...deployment, status: 'deleting' });
+    }
+
+    for (;;) {
+      const list = await this.bucket.list({ prefix: fileKey(id, '') });
+      if (list.objects.length === 0) break;
+      await this.bucket.delete(list.objects.map(object => object.key));
+    }
+
+    await this.kv.delete(`deployment:${id}`);
+    return true;
+  }
+
+  /**
+   * One alias. Reads on the serving path may be up to a minute old.
+   */
+  async getAlias(name: string, fresh = false): Promise<Alias | null> {
+    return await this.kv.get<Alias>(aliasKey(name), { type: 'json', cacheTtl: fresh ? undefined : ALIAS_CACHE_TTL });
+  }
+
+  async getAliases(): Promise<Record<string, Alias>> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: aliasKey(''), cursor });
+      names.push(...list.keys.map(key => key.name.slice(aliasKey('').length)));
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    const aliases = await Promise.all(names.map(name => this.getAlias(name, true)));
+    return Object.fromEntries(
+      names.flatMap((name, i) => aliases[i] ? [[name, aliases[i]] as [string, Alias]] : []),
+    );
+  }
+
+  /**
+   * Point an alias at a deployment. The previous target is kept for rollback.
+   */
+  async setAlias(name: string, deploymentId: string): Promise<Alias> {
+    const current = await this.getAlias(name, true);
+
+    const history = current && current.deploymentId !== deploymentId
+      ? [current.deploymentId, ...current.history.filter(id => id !== deploymentId)]
+      : current?.history ?? [];
+
+    const alias: Alias = { deploymentId, updatedAt: Date.now(), history: history.slice(0, ALIAS_HISTORY) };
+    await this.kv.put(aliasKey(name), JSON.stringify(alias));
+    return alias;
+  }
+
+  /**
+   * Move an alias back: to a given earlier deployment, or to the one it
+   * pointed at last that still exists. Rolling back consumes history rather
+   * than bouncing between two deployments.
+   */
+  async rollback(name: string, deploymentId?: string): Promise<Alias | null> {
+    const current = await this.getAlias(name, true);
+    if (!current) return null;
+
+    for (const id of deploymentId ? [deploymentId] : current.history) {
+      const deployment = await this.get(id);
+      if (deployment?.status !== 'ready') continue;
+
+      const alias: Alias = {
+        deploymentId: id,
+        updatedAt: Date.now(),
+        history: current.history.filter(earlier => earlier !== id),
+      };
+      await this.kv.put(aliasKey(name), JSON.stringify(alias));
+      return alias;
+    }
+
+    return null;
+  }
+
+  async deleteAlias(name: string): Promise<boolean> {
+    if (!await this.getAlias(name, true)) return false;
+
+    await this.kv.delete(aliasKey(name));
+    return true;
+  }
+
+  /**
+   * Map an asset path under an alias to the file in its deployment.
+   * The longest matching alias wins; directory paths serve index.html.
+   */
+  async resolve(path: string): Promise<ResolvedAlias | null> {
+    // Every leading run of two or more segments could name an alias, longest first
+    const segments = path.split('/');
+    const names: string[] = [];
+    for (let count = segments.length; count >= 2; count--) {
+      const name = segments.slice(0, count).join('/');
+      if (isAliasName(name)) names.push(name);
+    }
+
+    const aliases = await Promise.all(names.map(name => this.getAlias(name)));
+    const index = aliases.findIndex(alias => alias !== null);
+    if (index === -1) return null;
+
+    const name = names[index];
+    let file = path.slice(name.length + 1);
+    if (!file || file.endsWith('/')) file += 'index.html';
+
+    const deploymentId = aliases[index]!.deploymentId;
+    return { alias: name, deploymentId, key: fileKey(deploymentId, file) };
+  }
+
+  async getRetention(): Promise<DeploymentRetention> {
+    const retention = await this.kv.get<DeploymentRetention>(RETENTION_KEY, { type: 'json', cacheTtl: 60 });
+    return retention ?? DEFAULT_RETENTION;
+  }
+
+  async setRetention(retention: DeploymentRetention): Promise<void> {
+    await this.kv.put(RETENTION_KEY, JSON.stringify(retention));
+  }
+
+  /**
+   * Remove deployments past retention. Aliased deployments are always kept
+   * and count towards each site's limit; abandoned pending ones go after a day.
+   */
+  async collectGarbage(): Promise<string[]> {
+    const retention = await this.getRetention();
+    const aliased = new Set(Object.values(await this.getAliases()).map(alias => alias.deploymentId));
+    const maxAge = retention.maxAgeDays ? Date.now() - retention.maxAgeDays * 86400 * 1000 : 0;
+    const keptPerSite = new Map<string, number>();
+
+    const expired = (await this.list()).filter(deployment => {
+      if (deployment.status === 'deleting') return true;
+      if (deployment.status === 'pending') return deployment.createdAt < Date.now() - PENDING_TTL;
+
+      const index = keptPerSite.get(deployment.site) ?? 0;
+      keptPerSite.set(deployment.site, index + 1);
+
+      return !aliased.has(deployment.id) && (index >= retention.keep || deployment.createdAt < maxAge);
+    });
+
+    for (const deployment of expired) {
+      await this.remove(deployment.id);
+    }
+    return expired.map(deployment => deployment.id);
+  }
+
+  private async save(deployment: Deployment): Promise<void> {
+    const metadata: Omit<DeploymentSummary, 'id'> = {
+      site: deployment.site,
+      status: deployment.status,
+      createdAt: deployment.createdAt,
+    };
+    await this.kv.put(`deployment:${deployment.id}`, JSON.stringify(deployment), { metadata });
+  }
+}
+
+/**
+ * Site path a deployment request is scoped to
+ */
+function sitePath(site: string | undefined): string[] {
+  return site ? [`${site}/`] : [];
+}
+
+async function deploymentSite(c: Context<AppEnv>): Promise<string[]> {
+  const deployment = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).get(c.req.param('id') ?? '');
+  return sitePath(deployment?.site);
+}
+
+async function aliasPath(c: Context<AppEnv>): Promise<string[]> {
+  const name = c.req.method === 'DELETE'
+    ? c.req.query('name')
+    : (await c.req.json<{ name?: string }>()).name;
+  return name ? [`${name}/`] : [];
+}
+
+/**
+ * Point an alias at a ready deployment of its site
+ */
+async function assignAlias(
+  store: DeploymentStore,
+  name: string,
+  deployment: Deployment | null,
+): Promise<{ alias: Alias } | { error: string; status: 400 | 404 | 409 }> {
+  if (!deployment) return { error: 'Deployment not found', status: 404 };
+  if (!isAliasName(name, deployment.site)) {
+    return { error: `alias must be "${deployment.site}/<name>"`, status: 400 };
+  }
+  if (deployment.status !== 'ready') return { error: 'Deployment is not finalized', status: 409 };
+
+  return { alias: await store.setAlias(name, deployment.id) };
+}
+
+/**
+ * Deployment and alias routes
+ */
+export function createDeploymentRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Create a deployment: a bundle in the body is unpacked and finalized at once,
+  // an empty body starts one that files are uploaded into
+  app.post('/deployments', requireScope('write', c => sitePath(c.req.query('site'))), async (c) => {
+    const site = c.req.query('site') || '';
+    const aliasName = c.req.query('alias');
+
+    if (!isSiteName(site)) {
+      return c.json({ error: 'site query parameter required: one path segment, e.g. "app"' }, 400);
+    }
+    if (aliasName && !isAliasName(aliasName, site)) {
+      return c.json({ error: `alias must be "${site}/<name>"` }, 400);
+    }
+
+    const store = new DeploymentStore(c.env.ASSETS, c.env.CACHE);
+    let bytes: Uint8Array = new Uint8Array(await c.req.arrayBuffer());
+    const options = { keyId: c.get('apiKey')?.id, message: c.req.query('message') };
+
+    if (bytes.length === 0) {
+      if (aliasName) {
+        return c.json({ error: 'alias can only be set with a bundle or on finalize' }, 400);
+      }
+
+      const deployment = await store.create(site, options);
+      return c.json({
+        deployment,
+        uploadUrl: `/deployments/${deployment.id}/files/`,
+        finalizeUrl: `/deployments/${deployment.id}/finalize`,
+      }, 201);
+    }
+
+    const format = bundleFormat(c.req.header('Content-Type'), bytes);
+    if (!format) {
+      return c.json({ error: 'Body must be a tar, gzipped tar or zip bundle' }, 415);
+    }
+
+    if (format === 'tgz') {
+      const unpacked = await gunzipBundle(bytes);
+      if (typeof unpacked === 'string') {
+        return c.json({ error: unpacked }, 400);
+      }
+      bytes = unpacked;
+    }
+
+    const entries = indexBundle(format === 'zip' ? 'zip' : 'tar', bytes);
+    if (typeof entries === 'string') {
+      return c.json({ error: entries }, 400);
+    }
+
+    const pending = await store.create(site, options);
+    let error: string | null;
+    try {
+      error = await store.unpack(pending.id, bytes, entries);
+    } catch (e) {
+      c.executionCtx.waitUntil(store.remove(pending.id));
+      throw e;
+    }
+    if (error) {
+      c.executionCtx.waitUntil(store.remove(pending.id));
+      return c.json({ error }, 400);
+    }
+
+    const deployment = (await store.finalize(pending))!;
+    const alias = aliasName ? await store.setAlias(aliasName, deployment.id) : undefined;
+
+    return c.json({ deployment, alias: alias && { name: aliasName, ...alias } }, 201);
+  });
+
+  app.get('/deployments', requireScope('read', c => sitePath(c.req.query('site'))), async (c) => {
+    const key = c.get('apiKey')!;
+    const deployments = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).list(c.req.query('site'));
+    return c.json({ deployments: deployments.filter(d => canAccessPath(key, `${d.site}/`)) });
+  });
+
+  app.get('/deployments/:id', requireScope('read', deploymentSite), async (c) => {
+    const deployment = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).get(c.req.param('id'));
+    if (!deployment) {
+      return c.json({ error: 'Deployment not found' }, 404);
+    }
+    return c.json({ deployment });
+  });
+
+  // Upload one file into a pending deployment
+  app.put('/deployments/:id/files/*', requireScope('write', deploymentSite), async (c) => {
+    const store = new DeploymentStore(c.env.ASSETS, c.env.CACHE);
+    const deployment = await store.get(c.req.param('id'));
+
+    if (!deployment) {
+      return c.json({ error: 'Deployment not found' }, 404);
+    }
+    if (deployment.status !== 'pending') {
+      return c.json({ error: 'Deployment is finalized; its files can no longer change' }, 409);
+    }
+
+    const path = normalizeBundlePath(c.req.path.replace(`/deployments/${deployment.id}/files/`, ''));
+    if (!path) {
+      return c.json({ error: 'File path required' }, 400);
+    }
+
+    const body = await c.req.arrayBuffer();
+    const object = await store.putFile(deployment.id, path, body, c.req.header('Content-Type'));
+
+    return c.json({ deploymentId: deployment.id, path, size: body.byteLength, etag: object.etag });
+  });
+
+  // Seal a pending deployment, optionally pointing an alias at it
+  app.post('/deployments/:id/finalize', requireScope('write', deploymentSite), async (c) => {
+    const body = await c.req.json<{ alias?: string }>().catch(() => ({} as { alias?: string }));
+    const store = new DeploymentStore(c.env.ASSETS, c.env.CACHE);
+    const pending = await store.get(c.req.param('id'));
+
+    if (!pending) {
+      return c.json({ error: 'Deployment not found' }, 404);
+    }
+    if (pending.status !== 'pending') {
+      return c.json({ error: `Deployment is ${pending.status}` }, 409);
+    }
+    if (body.alias && !isAliasName(body.alias, pending.site)) {
+      return c.json({ error: `alias must be "${pending.site}/<name>"` }, 400);
+    }
+
+    const deployment = await store.finalize(pending);
+    if (!deployment) {
+      return c.json({ error: 'Deployment has no files' }, 400);
+    }
+
+    const alias = body.alias ? await store.setAlias(body.alias, deployment.id) : undefined;
+    return c.json({ deployment, alias: alias && { name: body.alias, ...alias } });
+  });
+
+  app.delete('/deployments/:id', requireScope('write', deploymentSite), async (c) => {
+    const store = new DeploymentStore(c.env.ASSETS, c.env.CACHE);
+    const id = c.req.param('id');
+
+    const aliases = Object.entries(await store.getAliases())
+      .filter(([, alias]) => alias.deploymentId === id)
+      .map(([name]) => name);
+    if (aliases.length > 0) {
+      return c.json({ error: 'Deployment is aliased', aliases }, 409);
+    }
+
+    if (!await store.remove(id)) {
+      return c.json({ error: 'Deployment not found' }, 404);
+    }
+    return c.json({ deleted: true, id });
+  });
+
+  // Aliases visible to the key
+  app.get('/aliases', requireScope('read'), async (c) => {
+    const key = c.get('apiKey')!;
+    const aliases = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).getAliases();
+    return c.json({
+      aliases: Object.entries(aliases)
+        .filter(([name]) => canAccessPath(key, `${name}/`))
+        .map(([name, alias]) => ({ name, ...alias })),
+    });
+  });
+
+  // Point an alias at a deployment
+  app.put('/aliases', requireScope('write', aliasPath), async (c) => {
+    const body = await c.req.json<{ name: string; deploymentId: string }>();
+    if (!body.name || !body.deploymentId) {
+      return c.json({ error: 'name and deploymentId required' }, 400);
+    }
+
+    const store = new DeploymentStore(c.env.ASSETS, c.env.CACHE);
+    const result = await assignAlias(store, body.name, await store.get(body.deploymentId));
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    return c.json({ name: body.name, ...result.alias });
+  });
+
+  // Move an alias back to an earlier deployment
+  app.post('/aliases/rollback', requireScope('write', aliasPath), async (c) => {
+    const body = await c.req.json<{ name: string; deploymentId?: string }>();
+    if (!body.name) {
+      return c.json({ error: 'name required' }, 400);
+    }
+
+    const alias = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).rollback(body.name, body.deploymentId);
+    if (!alias) {
+      return c.json({ error: body.deploymentId ? 'Alias or deployment not found' : 'No earlier deployment to roll back to' }, 404);
+    }
+
+    return c.json({ name: body.name, rolledBack: true, ...alias });
+  });
+
+  app.delete('/aliases', requireScope('write', aliasPath), async (c) => {
+    const name = c.req.query('name') || '';
+    if (!await new DeploymentStore(c.env.ASSETS, c.env.CACHE).deleteAlias(name)) {
+      return c.json({ error: 'Alias not found' }, 404);
+    }
+    return c.json({ deleted: true, name });
+  });
+
+  // Retention and garbage collection
+  app.get('/admin/deployments/retention', async (c) => {
+    return c.json(await new DeploymentStore(c.env.ASSETS, c.env.CACHE).getRetention());
+  });
+
+  app.put('/admin/deployments/retention', async (c) => {
+    const body = await c.req.json<DeploymentRetention>();
+
+    if (!Number.isInteger(body.keep) || body.keep < 1
+      || (body.maxAgeDays !== undefined && (typeof body.maxAgeDays !== 'number' || body.maxAgeDays <= 0))) {
+      return c.json({ error: 'keep must be a positive integer; maxAgeDays, when set, a positive number' }, 400);
+    }
+
+    const retention = { keep: body.keep, maxAgeDays: body.maxAgeDays };
+    await new DeploymentStore(c.env.ASSETS, c.env.CACHE).setRetention(retention);
+    return c.json(retention);
+  });
+
+  app.post('/admin/deployments/gc', async (c) => {
+    const removed = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).collectGarbage();
+    return c.json({ removed });
+  });
+
+  return app;
+}
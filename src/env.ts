@@ -0,0 +1,33 @@
+/**
+ * RoadCDN worker bindings and configuration
+ */
+
+import { ApiKeyRecord } from './auth';
+import { Tenant } from './tenants';
+
+export interface Env {
+  CACHE: KVNamespace;
+  ASSETS: R2Bucket;
+  LOGS?: R2Bucket; // access logs; ASSETS when unbound
+  ANALYTICS: DurableObjectNamespace;
+  USAGE: DurableObjectNamespace; // storage meters, one per tenant
+  LOCKS: DurableObjectNamespace; // fill leases, one per cache key
+  DEFAULT_TTL: string;
+  MAX_AGE: string;
+  STALE_WHILE_REVALIDATE?: string;
+  STALE_IF_ERROR?: string;
+  CACHE_MAX_ENTRY_BYTES?: string;
+  ADMIN_API_KEY?: string; // secret
+  CORS_ALLOWED_ORIGINS?: string; // comma-separated, for mutating requests
+  TENANT_DOMAIN?: string; // tenants are served at <id>.<TENANT_DOMAIN>
+}
+
+/**
+ * Values set on the request context by middleware
+ */
+export interface Variables {
+  apiKey?: ApiKeyRecord;
+  tenant?: Tenant; // set when the Host belongs to a tenant
+}
+
+export type AppEnv = { Bindings: Env; Variables: Variables };
@@ -0,0 +1,231 @@
+/**
+ * RoadCDN Fingerprinting
+ *
+ * Cache-busting without build tool support:
+ * - Uploads under fingerprinted prefixes (or sent with `X-Fingerprint: true`) are
+ *   hashed and also stored at `name.<hash>.ext`, served as immutable
+ * - The logical asset records its current fingerprinted path
+ * - A manifest per prefix maps logical names to fingerprinted URLs
+ */
+
+import { Hono } from 'hono';
+import { AppEnv } from './env';
+import { requireScope } from './auth';
+import { invalidateAsset } from './cache';
+import { Coalescer } from './coalesce';
+import { ResolvedPolicy } from './rules';
+import { isReservedPath } from './reserved';
+
+export const FINGERPRINT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+interface FingerprintConfig {
+  prefixes: string[];
+}
+
+export interface Fingerprint {
+  hash: string;
+  path: string; // fingerprinted asset path
+}
+
+export interface Manifest {
+  prefix: string;
+  assets: Record<string, string>; // logical name, relative to the prefix -> fingerprinted URL
+}
+
+const CONFIG_KEY = 'cdn:fingerprint';
+
+// Hex characters of the SHA-256 digest kept in fingerprinted names
+const HASH_LENGTH = 12;
+
+/**
+ * Short content hash of an upload
+ */
+export async function contentHash(body: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', body));
+  return [...digest].map(byte => byte.toString(16).padStart(2, '0')).join('').slice(0, HASH_LENGTH);
+}
+
+/**
+ * Insert the hash before the extension: css/app.css -> css/app.<hash>.css
+ */
+export function fingerprintPath(path: string, hash: string): string {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  return dot > slash + 1
+    ? `${path.slice(0, dot)}.${hash}${path.slice(dot)}`
+    : `${path}.${hash}`;
+}
+
+/**
+ * Whether an R2 object is a fingerprinted copy
+ */
+export function isFingerprinted(object: R2Object): boolean {
+  return object.customMetadata?.fingerprintOf !== undefined;
+}
+
+/**
+ * Fingerprinted assets never change, so browsers may keep them for a year
+ */
+export function immutablePolicy(policy: ResolvedPolicy): ResolvedPolicy {
+  return policy.noStore ? policy : { ...policy, cacheControl: FINGERPRINT_CACHE_CONTROL };
+}
+
+/**
+ * Fingerprint configuration, fingerprinted copies and manifests
+ */
+export class FingerprintStore {
+  private bucket: R2Bucket;
+  private kv: KVNamespace;
+
+  constructor(bucket: R2Bucket, kv: KVNamespace) {
+    this.bucket = bucket;
+    this.kv = kv;
+  }
+
+  /**
+   * Prefixes whose uploads are fingerprinted
+   */
+  async getPrefixes(): Promise<string[]> {
+    const config = await this.kv.get<FingerprintConfig>(CONFIG_KEY, { type: 'json', cacheTtl: 60 });
+    return config?.prefixes ?? [];
+  }
+
+  async setPrefixes(prefixes: string[]): Promise<void> {
+    await this.kv.put(CONFIG_KEY, JSON.stringify({ prefixes }));
+  }
+
+  /**
+   * Manifest an asset belongs to: its longest fingerprinted prefix, or its directory
+   */
+  async manifestPrefix(path: string): Promise<string> {
+    const prefix = (await this.getPrefixes())
+      .filter(p => path.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ?? path.slice(0, path.lastIndexOf('/') + 1);
+  }
+
+  /**
+   * Whether an upload should be fingerprinted. `X-Fingerprint` overrides the prefixes.
+   */
+  async shouldFingerprint(path: string, header: string | undefined): Promise<boolean> {
+    if (header === 'true') return true;
+    if (header === 'false') return false;
+
+    const prefixes = await this.getPrefixes();
+    return prefixes.some(prefix => path.startsWith(prefix))
+      && path !== `${await this.manifestPrefix(path)}${MANIFEST_NAME}`;
+  }
+
+  /**
+   * Store the fingerprinted copy of an upload. The same content lands on the
+   * same path, so an existing copy is left alone.
+   */
+  async store(
+    path: string,
+    body: ArrayBuffer,
+    options: { contentType: string; customMetadata: Record<string, string> },
+  ): Promise<Fingerprint> {
+    const hash = await contentHash(body);
+    const hashed = fingerprintPath(path, hash);
+
+    if (!await this.bucket.head(hashed)) {
+      await this.bucket.put(hashed, body, {
+        httpMetadata: { contentType: options.contentType, cacheControl: FINGERPRINT_CACHE_CONTROL },
+        customMetadata: { ...options.customMetadata, fingerprintOf: path, hash },
+      });
+    }
+
+    return { hash, path: hashed };
+  }
+
+  /**
+   * Logical names under a prefix and their current fingerprinted URLs
+   */
+  async manifest(prefix: string): Promise<Manifest> {
+    const assets: Record<string, string> = {};
+    let cursor: string | undefined;
+
+    do {
+      // `include` is missing from some versions of the R2 types
+      const list = await this.bucket.list({
+        prefix,
+        include: ['customMetadata'],
+        cursor,
+      } as R2ListOptions);
+
+      for (const object of list.objects) {
+        const fingerprint = object.customMetadata?.fingerprint;
+        if (fingerprint && !isReservedPath(object.key)) {
+          assets[object.key.slice(prefix.length)] = `/cdn/${fingerprint}`;
+        }
+      }
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+
+    return { prefix, assets };
+  }
+
+  /**
+   * Rewrite the manifest an asset belongs to, one writer per manifest at a
+   * time so a slower rebuild can't overwrite a newer one. Assets at the root
+   * get no manifest: it would list the whole bucket.
+   */
+  async refreshManifest(path: string, locks: Coalescer): Promise<void> {
+    const prefix = await this.manifestPrefix(path);
+    if (!prefix) return;
+
+    await locks.exclusive(`manifest:${prefix}`, () => this.writeManifest(prefix));
+  }
+
+  /**
+   * Rewrite `<prefix>manifest.json` from the current assets
+   */
+  private async writeManifest(prefix: string): Promise<void> {
+    const { assets } = await this.manifest(prefix);
+    const path = `${prefix}${MANIFEST_NAME}`;
+
+    await this.bucket.put(path, JSON.stringify(assets, null, 2), {
+      httpMetadata: { contentType: 'application/json', cacheControl: 'no-cache' },
+      customMetadata: { generated: 'true' },
+    });
+    await invalidateAsset(this.kv, path);
+  }
+}
+
+/**
+ * Manifest and fingerprint admin routes. The /admin routes rely on the
+ * app-wide requireScope('admin').
+ */
+export function createFingerprintRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Current manifest for a prefix
+  app.get('/manifest', requireScope('read', c => [c.req.query('prefix') || '']), async (c) => {
+    const prefix = (c.req.query('prefix') || '').replace(/^\//, '');
+    if (prefix && !prefix.endsWith('/')) {
+      return c.json({ error: 'prefix must end with /' }, 400);
+    }
+
+    return c.json(await new FingerprintStore(c.env.ASSETS, c.env.CACHE).manifest(prefix));
+  });
+
+  // Fingerprinted prefixes
+  app.get('/admin/fingerprint', async (c) => {
+    return c.json({ prefixes: await new FingerprintStore(c.env.ASSETS, c.env.CACHE).getPrefixes() });
+  });
+
+  app.put('/admin/fingerprint', async (c) => {
+    const body = await c.req.json<{ prefixes: string[] }>();
+
+    if (!Array.isArray(body.prefixes) || body.prefixes.some(p => typeof p !== 'string' || !p.endsWith('/'))) {
+      return c.json({ error: 'prefixes must be a list of paths ending with /' }, 400);
+    }
+
+    await new FingerprintStore(c.env.ASSETS, c.env.CACHE).setPrefixes(body.prefixes);
+    return c.json({ prefixes: body.prefixes });
+  });
+
+  return app;
+}
@@ -0,0 +1,443 @@
+/**
+ * RoadCDN Static Site Hosting
+ *
+ * Website behaviour for a prefix or custom hostname:
+ * - Index documents for directory paths, trailing-slash redirects
+ * - SPA fallback to a chosen document
+ * - Custom 404 and 500 pages
+ * - Netlify-style `_redirects` and `_headers` files uploaded with the site
+ */
+
+import { Hono, Context, MiddlewareHandler } from 'hono';
+import { AppEnv } from './env';
+import { DeploymentStore } from './deployments';
+import { storageNamespace } from './tenants';
+import { recordResponse } from './analytics';
+import { isHeaderName, isHeaderValue } from './rules';
+
+export interface SiteConfig {
+  prefix: string; // where the site's files live, e.g. "docs/" or an alias "app/production/"
+  hosts?: string[]; // hostnames serving the site at their root
+  indexDocument?: string; // default index.html
+  trailingSlash?: boolean; // redirect directories to a trailing slash, default true
+  spaFallback?: string; // served for unknown extensionless paths, e.g. "index.html"
+  notFoundDocument?: string; // default 404.html
+  errorDocument?: string; // default 500.html
+}
+
+interface SitesConfig {
+  sites: SiteConfig[];
+}
+
+export interface RedirectRule {
+  from: RegExp;
+  to: string;
+  status: number;
+  force: boolean;
+  countries?: string[];
+  languages?: string[];
+}
+
+export interface HeaderRule {
+  path: RegExp | null; // null when the pattern can't be compiled
+  headers: [string, string][];
+}
+
+interface SiteFiles {
+  redirects: RedirectRule[];
+  headers: HeaderRule[];
+  loadedAt: number;
+}
+
+/**
+ * Serves an asset path, answering 404 when it doesn't exist
+ */
+export type AssetServer = (path: string) => Promise<Response>;
+
+const SITES_KEY = 'cdn:sites';
+
+export const REDIRECTS_FILE = '_redirects';
+export const HEADERS_FILE = '_headers';
+
+const DEFAULTS = {
+  indexDocument: 'index.html',
+  notFoundDocument: '404.html',
+  errorDocument: '500.html',
+};
+
+// How long each isolate reuses a site's parsed _redirects and _headers
+const SITE_FILES_TTL = 60_000;
+
+const REDIRECT_STATUSES = [200, 301, 302, 303, 307, 308, 404];
+
+// Parsed per isolate, keyed by storage namespace and site root
+const siteFiles = new Map<string, SiteFiles>();
+
+/**
+ * Regex for a Netlify path pattern: `:name` matches one segment, a `*` segment
+ * the rest (as `:splat`). Returns null for patterns that can't be compiled.
+ */
+function patternToRegExp(pattern: string): RegExp | null {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .split('/')
+    .map(segment => {
+      if (segment === '*') return '(?<splat>.*)';
+      if (segment.startsWith(':')) return `(?<${segment.slice(1).replace(/\W/g, '')}>[^/]+)`;
+      return segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    })
+    .join('/');
+
+  try {
+    // Patterns match with or without a trailing slash
+    return new RegExp(`^${source}/?$`);
+  } catch {
+    return null; // e.g. a repeated placeholder name
+  }
+}
+
+/**
+ * Parse a `_redirects` file. Lines that can't be parsed are skipped.
+ *
+ *   /old /new 301
+ *   /blog/:slug /posts/:slug
+ *   /api/* https://api.example.com/:splat 302!
+ *   /* /index.html 200
+ */
+export function parseRedirects(text: string): RedirectRule[] {
+  const rules: RedirectRule[] = [];
+
+  for (const line of text.split('\n')) {
+    const [from, to, ...rest] = line.replace(/#.*$/, '').trim().split(/\s+/);
+    const pattern = from?.startsWith('/') ? patternToRegExp(from) : null;
+    if (!pattern || !to) continue;
+
+    const rule: RedirectRule = { from: pattern, to, status: 301, force: false };
+    let valid = true;
+
+    for (const token of rest) {
+      const status = token.match(/^(\d{3})(!?)$/);
+      const condition = token.match(/^(Country|Language)=(.+)$/i);
+
+      if (status && REDIRECT_STATUSES.includes(parseInt(status[1]))) {
+        rule.status = parseInt(status[1]);
+        rule.force = status[2] === '!';
+      } else if (condition?.[1].toLowerCase() === 'country') {
+        rule.countries = condition[2].split(',').map(c => c.toUpperCase());
+      } else if (condition) {
+        rule.languages = condition[2].split(',').map(l => l.toLowerCase());
+      } else {
+        valid = false;
+      }
+    }
+
+    // Rewrites serve files of this site; proxying to other origins isn't supported
+    const proxied = (rule.status === 200 || rule.status === 404) && /^https?:/.test(to);
+    if (valid && !proxied) rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Parse a `_headers` file: a path pattern, then indented `Name: value` lines
+ *
+ *   /assets/*
+ *     Cache-Control: public, max-age=31536000, immutable
+ */
+export function parseHeaders(text: string): HeaderRule[] {
+  const rules: HeaderRule[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    if (!/^\s/.test(line)) {
+      rules.push({ path: patternToRegExp(line.trim()), headers: [] });
+      continue;
+    }
+
+    // Lines that couldn't be sent as a header are skipped rather than failing every response
+    const separator = line.indexOf(':');
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (separator > 0 && rules.length > 0 && isHeaderName(name) && isHeaderValue(value)) {
+      rules[rules.length - 1].headers.push([name, value]);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Site configuration and the files that shape each site
+ */
+export class SiteHosting {
+  private bucket: R2Bucket;
+  private kv: KVNamespace;
+
+  constructor(bucket: R2Bucket, kv: KVNamespace) {
+    this.bucket = bucket;
+    this.kv = kv;
+  }
+
+  async getSites(): Promise<SiteConfig[]> {
+    const config = await this.kv.get<SitesConfig>(SITES_KEY, { type: 'json', cacheTtl: 60 });
+    return config?.sites ?? [];
+  }
+
+  async setSites(sites: SiteConfig[]): Promise<void> {
+    await this.kv.put(SITES_KEY, JSON.stringify({ sites }));
+  }
+
+  /**
+   * Site an asset path belongs to; the longest prefix wins. The prefix
+   * without its trailing slash counts, so it can be redirected.
+   */
+  async siteForPath(path: string): Promise<SiteConfig | null> {
+    return (await this.getSites())
+      .filter(site => path.startsWith(site.prefix) || `${path}/` === site.prefix)
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0] ?? null;
+  }
+
+  async siteForHost(host: string): Promise<SiteConfig | null> {
+    const hostname = host.split(':')[0].toLowerCase();
+    return (await this.getSites()).find(site => site.hosts?.includes(hostname)) ?? null;
+  }
+
+  /**
+   * R2 key an asset path is stored under, following aliases to deployments
+   */
+  private async resolveKey(path: string): Promise<string> {
+    return (await new DeploymentStore(this.bucket, this.kv).resolve(path))?.key ?? path;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return (await this.bucket.head(await this.resolveKey(path))) !== null;
+  }
+
+  /**
+   * Parsed `_redirects` and `_headers` of a site, reused for a minute.
+   * Aliased sites are keyed by deployment, so a switch brings its own files.
+   */
+  async files(site: SiteConfig): Promise<SiteFiles> {
+    const redirectsKey = await this.resolveKey(`${site.prefix}${REDIRECTS_FILE}`);
+    const root = redirectsKey.slice(0, -REDIRECTS_FILE.length);
+    const cacheKey = `${storageNamespace(this.bucket)}${root}`;
+
+    const cached = siteFiles.get(cacheKey);
+    if (cached && Date.now() - cached.loadedAt < SITE_FILES_TTL) return cached;
+
+    const read = async (key: string) => {
+      const object = await this.bucket.get(key);
+      return object ? await object.text() : '';
+    };
+
+    const [redirects, headers] = await Promise.all([read(redirectsKey), read(`${root}${HEADERS_FILE}`)]);
+    const files = { redirects: parseRedirects(redirects), headers: parseHeaders(headers), loadedAt: Date.now() };
+    siteFiles.set(cacheKey, files);
+    return files;
+  }
+}
+
+/**
+ * Drop a site's parsed files in this isolate, e.g. after they were uploaded
+ */
+export function forgetSiteFiles(bucket: R2Bucket, path: string): void {
+  const key = `${storageNamespace(bucket)}${path}`;
+  for (const root of siteFiles.keys()) {
+    if (key === `${root}${REDIRECTS_FILE}` || key === `${root}${HEADERS_FILE}`) siteFiles.delete(root);
+  }
+}
+
+function withStatus(response: Response, status: number): Response {
+  return new Response(response.body, { status, headers: response.headers });
+}
+
+/**
+ * First redirect rule matching a site-relative path, with its target filled in
+ */
+function matchRedirect(
+  rules: RedirectRule[],
+  path: string,
+  request: Request,
+  force: boolean,
+): { rule: RedirectRule; target: string } | null {
+  const country = (request.cf as IncomingRequestCfProperties | undefined)?.country;
+  const language = request.headers.get('Accept-Language')?.split(',')[0].split('-')[0].trim().toLowerCase();
+
+  for (const rule of rules) {
+    if (rule.force !== force) continue;
+    if (rule.countries && !rule.countries.includes(country ?? '')) continue;
+    if (rule.languages && !rule.languages.includes(language ?? '')) continue;
+
+    const match = path.match(rule.from);
+    if (!match) continue;
+
+    const target = rule.to.replace(/:(\w+)/g, (placeholder, name: string) => match.groups?.[name] ?? placeholder);
+    return { rule, target };
+  }
+
+  return null;
+}
+
+/**
+ * Serve a request for a hosted site.
+ *
+ * @param path - asset path of the request, under the site's prefix
+ * @param base - URL path the site is served from: "/cdn/docs" or "" on its own host
+ */
+export async function serveSite(
+  c: Context<AppEnv>,
+  site: SiteConfig,
+  path: string,
+  base: string,
+  serve: AssetServer,
+): Promise<Response> {
+  const hosting = new SiteHosting(c.env.ASSETS, c.env.CACHE);
+  const { indexDocument, notFoundDocument, errorDocument } = { ...DEFAULTS, ...site };
+  const query = new URL(c.req.url).search;
+
+  // The site root without its slash
+  if (`${path}/` === site.prefix) {
+    return c.redirect(`${base}/${query}`, 301);
+  }
+
+  const relative = path.slice(site.prefix.length);
+  const urlPath = `/${relative}`;
+  const files = await hosting.files(site);
+
+  // A redirect rule's target: a full URL, or a path on this site
+  const follow = async (match: { rule: RedirectRule; target: string }): Promise<Response> => {
+    const { rule, target } = match;
+    if (rule.status >= 300 && rule.status < 400) {
+      return c.redirect(/^https?:/.test(target) ? target : `${base}${target}`, rule.status as 301);
+    }
+
+    const rewritten = target.replace(/^\//, '').split('?')[0];
+    const response = await serve(`${site.prefix}${rewritten.endsWith('/') || !rewritten ? rewritten + indexDocument : rewritten}`);
+    return rule.status === 404 && response.status === 200 ? withStatus(response, 404) : response;
+  };
+
+  const respond = async (): Promise<Response> => {
+    // The site's own configuration files are never served
+    if (relative === REDIRECTS_FILE || relative === HEADERS_FILE) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+
+    const forced = matchRedirect(files.redirects, urlPath, c.req.raw, true);
+    if (forced) return follow(forced);
+
+    const directory = !relative || relative.endsWith('/');
+    const response = await serve(directory ? `${path}${indexDocument}` : path);
+    if (response.status !== 404) return response;
+
+    // Rules without ! only apply where no file exists
+    const shadowed = matchRedirect(files.redirects, urlPath, c.req.raw, false);
+    if (shadowed) return follow(shadowed);
+
+    const extensionless = !directory && !relative.split('/').pop()!.includes('.');
+
+    if (extensionless && site.trailingSlash !== false && await hosting.exists(`${path}/${indexDocument}`)) {
+      return c.redirect(`${base}${urlPath}/${query}`, 301);
+    }
+
+    if (extensionless && site.spaFallback) {
+      const fallback = await serve(`${site.prefix}${site.spaFallback}`);
+      if (fallback.status !== 404) return fallback;
+    }
+
+    const page = await serve(`${site.prefix}${notFoundDocument}`);
+    return page.status === 200 ? withStatus(page, 404) : response;
+  };
+
+  let response: Response;
+  try {
+    response = await respond();
+  } catch (e) {
+    const page = await serve(`${site.prefix}${errorDocument}`).catch(() => null);
+    if (page?.status !== 200) throw e;
+    response = withStatus(page, 500);
+  }
+
+  return applyHeaders(response, files.headers, urlPath);
+}
+
+/**
+ * Add the `_headers` matching a path. Values from several matching blocks are combined.
+ */
+function applyHeaders(response: Response, rules: HeaderRule[], path: string): Response {
+  const matched = new Map<string, string[]>();
+  for (const rule of rules.filter(r => r.path?.test(path))) {
+    for (const [name, value] of rule.headers) {
+      matched.set(name, [...matched.get(name) ?? [], value]);
+    }
+  }
+  if (matched.size === 0) return response;
+
+  const headers = new Headers(response.headers);
+  for (const [name, values] of matched) {
+    headers.set(name, values.join(', '));
+  }
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Serve GET and HEAD requests on a site's own hostname from the site
+ */
+export function siteHosts(serve: (c: Context<AppEnv>, path: string) => Promise<Response>): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (c.req.method !== 'GET' && c.req.method !== 'HEAD') return next();
+
+    const site = await new SiteHosting(c.env.ASSETS, c.env.CACHE).siteForHost(c.req.header('Host') || '');
+    if (!site) return next();
+
+    const path = `${site.prefix}${c.req.path.replace(/^\//, '')}`;
+    const response = await serveSite(c, site, path, '', p => serve(c, p));
+
+    // Answered before the /cdn route's hit tracking, so counted here
+    recordResponse(c, 'cdn', path, response);
+    return response;
+  };
+}
+
+function validSite(site: SiteConfig): boolean {
+  const documents = [site.indexDocument, site.spaFallback, site.notFoundDocument, site.errorDocument];
+  return typeof site.prefix === 'string'
+    && site.prefix.endsWith('/')
+    && (site.hosts === undefined || (Array.isArray(site.hosts) && site.hosts.every(h => typeof h === 'string' && h)))
+    && (site.trailingSlash === undefined || typeof site.trailingSlash === 'boolean')
+    && documents.every(doc => doc === undefined || (typeof doc === 'string' && doc && !doc.startsWith('/')));
+}
+
+/**
+ * Site admin routes. Mount behind requireScope('admin').
+ */
+export function createHostingRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  app.get('/admin/sites', async (c) => {
+    return c.json({ sites: await new SiteHosting(c.env.ASSETS, c.env.CACHE).getSites(), defaults: DEFAULTS });
+  });
+
+  app.put('/admin/sites', async (c) => {
+    const body = await c.req.json<{ sites: SiteConfig[] }>();
+
+    if (!Array.isArray(body.sites) || !body.sites.every(validSite)) {
+      return c.json({
+        error: 'sites must be a list of { prefix (ending with /), hosts?, indexDocument?, trailingSlash?, '
+          + 'spaFallback?, notFoundDocument?, errorDocument? } with documents relative to the prefix',
+      }, 400);
+    }
+
+    const sites = body.sites.map(site => ({ ...site, hosts: site.hosts?.map(h => h.toLowerCase()) }));
+    const hosts = sites.flatMap(site => site.hosts ?? []);
+    if (new Set(hosts).size !== hosts.length) {
+      return c.json({ error: 'A host can serve only one site' }, 400);
+    }
+
+    await new SiteHosting(c.env.ASSETS, c.env.CACHE).setSites(sites);
+    return c.json({ sites });
+  });
+
+  return app;
+}
@@ -10,23 +10,102 @@
  * - Custom domains
  */
 
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
-
-interface Env {
-  CACHE: KVNamespace;
-  ASSETS: R2Bucket;
-  DEFAULT_TTL: string;
-  MAX_AGE: string;
-}
-
-interface CacheEntry {
-  body: string;
-  contentType: string;
-  etag: string;
-  createdAt: number;
-  hits: number;
-}
+import { Env, AppEnv } from './env';
+import { serveRange, bytesSource, r2Source } from './range';
+import {
+  createEdgeCache,
+  entryState,
+  usableOnError,
+  invalidateAsset,
+  EdgeCache,
+  CachedObject,
+} from './cache';
+import {
+  parseCacheControl,
+  resolveFreshness,
+  defaultFreshness,
+  Freshness,
+} from './cache-control';
+import { CachePolicyEngine, ResolvedPolicy, createRulesRoutes } from './rules';
+import { createMultipartRoutes } from './multipart';
+import { requireScope, hasScope, createKeyRoutes, ApiKeyRecord } from './auth';
+import {
+  PurgeJobManager,
+  TagIndex,
+  parseCacheTags,
+  objectTags,
+  tagMetadata,
+  globPrefix,
+  validatePurgeSpec,
+  purgeBudget,
+  withinBudget,
+  markJobsPending,
+  listPendingJobs,
+  clearJobsPending,
+  publicJob,
+  PurgeSpec,
+  INLINE_BUDGET,
+  BACKGROUND_BUDGET,
+} from './purge';
+import {
+  UrlSigner,
+  isPrivateObject,
+  signatureFailure,
+  signedCacheControl,
+  createSigningRoutes,
+} from './signing';
+import { createLandingRoutes } from './landing';
+import { accessLog, createLogRoutes } from './logs';
+import { isReservedPath } from './reserved';
+import { VersionStore, createVersionRoutes } from './versions';
+import { DeploymentStore, createDeploymentRoutes } from './deployments';
+import { FingerprintStore, isFingerprinted, immutablePolicy, createFingerprintRoutes } from './fingerprint';
+import { SiteHosting, serveSite, siteHosts, forgetSiteFiles, createHostingRoutes } from './hosting';
+import { TenantStore, tenancy, tenantEnv, createTenantRoutes } from './tenants';
+import {
+  QuotaManager,
+  metering,
+  meteredEnv,
+  quotaExceeded,
+  quotaWarningHeader,
+  createQuotaRoutes,
+} from './quotas';
+import { ProxyGuard, ProxyError, proxyFailure, createProxyRoutes } from './proxy';
+import {
+  PreloadJobManager,
+  PreloadSpec,
+  preloadPath,
+  templatePrefix,
+  validatePreload,
+  publicPreloadJob,
+  preloadResults,
+} from './preload';
+import { ZoneStore, zoneTarget, zoneOrigin, zoneLocation, createZoneRoutes } from './zones';
+import { ProxyCache, ProxyResult, ProxyCacheStatus, OriginError, proxyResponse } from './proxy-cache';
+import { Coalescer, FillLease } from './coalesce';
+import {
+  trackHits,
+  queryStats,
+  parseTime,
+  GRANULARITIES,
+  ROUTES,
+  AnalyticsRoute,
+  Granularity,
+  StatsQuery,
+} from './analytics';
+import {
+  negotiateEncoding,
+  isCompressible,
+  contentTypeFor,
+  variantCacheKey,
+  parseVariantPath,
+  variantKey,
+  findVariant,
+  ContentEncoding,
+} from './compression';
+import { conditionalResponse, evaluatePreconditions, writeConditions, Validators } from './conditional';
 
 interface AssetMeta {
   contentType: string;
@@ -35,13 +114,65 @@ interface AssetMeta {
   origin?: string;
 }
 
-const app = new Hono<{ Bindings: Env }>();
+interface CachedTransform {
+  body: ArrayBuffer;
+  private?: boolean;
+}
+
+const app = new Hono<AppEnv>();
+
+// Registered first so records cover the whole request
+app.use('*', accessLog());
+
+// Every R2 write is metered, whichever tenant it lands in
+app.use('*', metering());
+
+// Tenant bindings and configuration replace the shared ones for everything after
+app.use('*', tenancy());
 
 app.use('*', cors({
-  origin: '*',
+  // Reads are public; mutating requests only from configured origins
+  origin: (origin, c) => {
+    const method = c.req.header('Access-Control-Request-Method') ?? c.req.method;
+    if (method === 'GET' || method === 'HEAD') return '*';
+
+    const allowed = (c.env.CORS_ALLOWED_ORIGINS || '').split(',').map((o: string) => o.trim());
+    return allowed.includes(origin) ? origin : null;
+  },
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowHeaders: [
+    'Range', 'If-Range', 'If-Match', 'If-None-Match', 'If-Modified-Since', 'If-Unmodified-Since',
+    'Content-Type', 'Cache-Control', 'Cache-Tag', 'Authorization', 'X-API-Key', 'X-Private', 'X-Fingerprint',
+  ],
+  exposeHeaders: [
+    'Accept-Ranges', 'Content-Range', 'Content-Length', 'Content-Encoding', 'ETag', 'Last-Modified', 'X-Cache',
+    'X-Deployment-Id', 'X-Quota-Warning', 'Retry-After',
+  ],
 }));
 
+// Sites with their own hostname are served from the root of that host
+app.use('*', siteHosts(serveAsset));
+
+// Mutating and admin routes require an API key
+app.use('/admin/*', requireScope('admin'));
+app.use('/uploads', requireScope('write'));
+app.use('/uploads/*', requireScope('write'));
+app.put('/landing/:slug', requireScope('write', c => [`landing/${c.req.param('slug')}`]));
+
+// Reads are counted off the hot path
+app.use('/cdn/*', trackHits('cdn'));
+app.use('/image/*', trackHits('image'));
+app.use('/proxy', trackHits('proxy'));
+app.use('/zone/*', trackHits('zone'));
+
+/**
+ * Asset path of a /cdn/* request
+ */
+function cdnPath(c: Context<AppEnv>): string {
+  return c.req.path.replace('/cdn/', '');
+}
+
+
 // Health check
 app.get('/health', (c) => c.json({ status: 'healthy', service: 'roadcdn' }));
 
@@ -53,13 +184,148 @@ app.get('/', (c) => c.json({
   endpoints: {
     serve: 'GET /cdn/:path',
     upload: 'PUT /cdn/:path',
+    multipartUpload: 'POST /uploads',
     purge: 'DELETE /cdn/:path',
     purgeAll: 'POST /purge',
+    preload: 'POST /preload, GET /preload/:jobId',
     stats: 'GET /stats',
     image: 'GET /image/:path?w=&h=&q=',
+    sign: 'POST /sign',
+    privatePrefixes: 'GET|PUT /admin/private',
+    signingKeys: 'GET|POST /admin/signing-keys',
+    logs: 'GET /admin/logs?from=&to=&path=&status=',
+    versions: 'GET /versions?path=',
+    restore: 'POST /versions/restore',
+    deploy: 'POST /deployments?site=&alias=',
+    aliases: 'GET|PUT /aliases',
+    rollback: 'POST /aliases/rollback',
+    manifest: 'GET /manifest?prefix=',
+    sites: 'GET|PUT /admin/sites',
+    tenants: 'GET|POST /admin/tenants',
+    usage: 'GET /admin/usage',
+    proxyAllowlist: 'GET|PUT /admin/proxy',
+    zone: 'GET /zone/:name/:path',
+    zones: 'GET /admin/zones, PUT|DELETE /admin/zones/:name',
+    keys: 'GET|POST /admin/keys',
+    rules: 'GET|PUT|POST /admin/rules',
+    testRule: 'GET /admin/rules/test?path=&contentType=',
   },
 }));
 
+/**
+ * Edge freshness for an R2 object, from the Cache-Control it was uploaded with
+ */
+function assetFreshness(env: Env, object: R2Object): Freshness {
+  return resolveFreshness(parseCacheControl(object.httpMetadata?.cacheControl), defaultFreshness(env));
+}
+
+/**
+ * Cache policy for an R2 object: rules first, then its own Cache-Control
+ */
+function assetPolicy(env: Env, rules: CachePolicyEngine, path: string, object: R2Object): ResolvedPolicy {
+  const contentType = object.httpMetadata?.contentType || 'application/octet-stream';
+  const policy = rules.resolve(path, contentType, assetFreshness(env, object), parseInt(env.MAX_AGE));
+  return isFingerprinted(object) ? immutablePolicy(policy) : policy;
+}
+
+/**
+ * Precondition validators for an R2 object, or for a missing one
+ */
+function assetValidators(object: R2Object | null): Validators {
+  return object
+    ? { exists: true, etag: object.httpEtag, lastModified: object.uploaded }
+    : { exists: false };
+}
+
+/**
+ * Response headers for a policy
+ */
+function policyHeaders(policy: ResolvedPolicy, headers: Record<string, string>): Headers {
+  return new Headers({
+    ...policy.headers,
+    ...headers,
+    'Cache-Control': policy.cacheControl,
+  });
+}
+
+/**
+ * Cache metadata for an R2 object served for `path`
+ */
+function assetCacheMeta(object: R2Object, path: string) {
+  return {
+    contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+    etag: object.httpEtag,
+    size: object.size,
+    lastModified: object.uploaded.getTime(),
+    encoding: object.httpMetadata?.contentEncoding as ContentEncoding | undefined,
+    source: object.key !== path ? object.key : undefined,
+    private: isPrivateObject(object) || undefined,
+    immutable: isFingerprinted(object) || undefined,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Representation headers shared by cached and R2 responses
+ */
+function representationHeaders(contentType: string, encoding?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': contentType };
+  if (encoding) headers['Content-Encoding'] = encoding;
+  if (isCompressible(contentType)) headers['Vary'] = 'Accept-Encoding';
+  return headers;
+}
+
+/**
+ * Check a cached asset against R2. Unchanged entries get a new freshness
+ * lifetime; changed entries are refilled when `refill` is set. `key` is the
+ * R2 key `path` is stored under.
+ */
+async function revalidateAsset(
+  env: Env,
+  cache: EdgeCache,
+  rules: CachePolicyEngine,
+  cacheKey: string,
+  path: string,
+  key: string,
+  entry: CachedObject,
+  refill: boolean,
+): Promise<'revalidated' | 'changed' | 'deleted'> {
+  // Variants are revalidated against the object they were read from
+  const source = entry.meta.source ?? key;
+  const head = await env.ASSETS.head(source);
+
+  if (!head) {
+    await cache.delete(cacheKey);
+    return 'deleted';
+  }
+
+  const policy = assetPolicy(env, rules, path, head);
+
+  if (policy.noStore) {
+    await cache.delete(cacheKey);
+    return 'changed';
+  }
+
+  if (head.httpEtag === entry.meta.etag) {
+    await cache.revalidate(cacheKey, entry, policy.freshness);
+    return 'revalidated';
+  }
+
+  if (refill) {
+    const object = await env.ASSETS.get(source);
+    if (object && cache.fits(object.size)) {
+      // Variants don't carry the private flag; keep the one recorded from the base asset
+      const meta = { ...assetCacheMeta(object, key), private: entry.meta.private };
+      await cache.put(cacheKey, object.body, meta, assetPolicy(env, rules, path, object).freshness);
+    } else {
+      await object?.body.cancel();
+      await cache.delete(cacheKey);
+    }
+  }
+
+  return 'changed';
+}
+
 // Serve cached content
 app.get('/cdn/*', async (c) => {
   const path = c.req.path.replace('/cdn/', '');
@@ -68,148 +334,501 @@ app.get('/cdn/*', async (c) => {
     return c.json({ error: 'Path required' }, 400);
   }
 
-  // Check If-None-Match for conditional requests
-  const ifNoneMatch = c.req.header('If-None-Match');
+  // Hosted sites get index documents, redirects and error pages
+  const site = await new SiteHosting(c.env.ASSETS, c.env.CACHE).siteForPath(path);
+  if (site) {
+    return serveSite(c, site, path, `/cdn/${site.prefix.replace(/\/$/, '')}`, p => serveAsset(c, p));
+  }
 
-  // Try KV cache first
-  const cacheKey = `cache:${path}`;
-  const cached = await c.env.CACHE.get(cacheKey, 'json') as CacheEntry | null;
+  return serveAsset(c, path);
+});
 
-  if (cached) {
-    // Update hit counter
-    cached.hits += 1;
-    await c.env.CACHE.put(cacheKey, JSON.stringify(cached), {
-      expirationTtl: parseInt(c.env.DEFAULT_TTL),
-    });
+/**
+ * Serve an asset from the edge cache or R2. Missing assets answer 404.
+ */
+async function serveAsset(c: Context<AppEnv>, path: string): Promise<Response> {
+  if (isReservedPath(path)) {
+    return c.json({ error: 'Not found' }, 404);
+  }
 
-    // Check ETag
-    if (ifNoneMatch && ifNoneMatch === cached.etag) {
-      return new Response(null, { status: 304 });
+  // Private prefixes are checked before touching the cache or R2
+  const signer = new UrlSigner(c.env.CACHE);
+  let signed = await signer.isPrivatePath(path);
+  if (signed) {
+    const failure = await signer.verify(c.req.raw, 'cdn', path);
+    if (failure) return signatureFailure(c, failure);
+  }
+
+  // Paths under an alias are read from the deployment it points at. Deployment
+  // files never change, so they are cached under their own keys and an alias
+  // switch needs no purge.
+  const deployment = await new DeploymentStore(c.env.ASSETS, c.env.CACHE).resolve(path);
+  const key = deployment?.key ?? path;
+
+  const rules = new CachePolicyEngine(c.env.CACHE);
+  await rules.loadRules();
+
+  // Compressible assets are cached once per encoding served. A request is
+  // answered from the first cached encoding it accepts, in preference order.
+  const accepted = negotiateEncoding(c.req.header('Accept-Encoding'));
+  const encodings = isCompressible(contentTypeFor(key)) ? accepted : ['identity' as const];
+
+  const cache = createEdgeCache(c.env);
+  const lookup = async (): Promise<{ key: string; entry: CachedObject } | null> => {
+    for (const encoding of encodings) {
+      const entryKey = variantCacheKey(`cache:${key}`, encoding);
+      const entry = await cache.get(entryKey);
+      if (entry && accepted.includes(entry.meta.encoding ?? 'identity')) return { key: entryKey, entry };
     }
+    return null;
+  };
 
-    return new Response(cached.body, {
-      headers: {
-        'Content-Type': cached.contentType,
-        'Cache-Control': `public, max-age=${c.env.MAX_AGE}`,
-        'ETag': cached.etag,
-        'X-Cache': 'HIT',
-        'X-Cache-Hits': String(cached.hits),
-      },
+  // Try KV cache first. Misses are keyed on the preferred encoding until the
+  // fill knows which one it stored.
+  const found = await lookup();
+  const cached = found?.entry ?? null;
+  const cacheKey = found?.key ?? variantCacheKey(`cache:${key}`, encodings[0]);
+
+  const serveCached = (entry: CachedObject, status: 'HIT' | 'STALE' | 'REVALIDATED' | 'COALESCED') => {
+    let policy = rules.resolve(path, entry.meta.contentType, {
+      ttl: parseInt(c.env.DEFAULT_TTL),
+      staleWhileRevalidate: entry.meta.staleWhileRevalidate,
+      staleIfError: entry.meta.staleIfError,
+    }, parseInt(c.env.MAX_AGE));
+    if (entry.meta.immutable) policy = immutablePolicy(policy);
+
+    const lastModified = entry.meta.lastModified ? new Date(entry.meta.lastModified) : undefined;
+    const headers = policyHeaders(policy, {
+      ...representationHeaders(entry.meta.contentType, entry.meta.encoding),
+      'ETag': entry.meta.etag,
+      'X-Cache': status,
     });
+    if (lastModified) headers.set('Last-Modified', lastModified.toUTCString());
+    if (signed) headers.set('Cache-Control', signedCacheControl(c.req.raw, parseInt(c.env.MAX_AGE)));
+    if (deployment) headers.set('X-Deployment-Id', deployment.deploymentId);
+
+    const conditional = conditionalResponse(c.req.raw, {
+      exists: true,
+      etag: entry.meta.etag,
+      lastModified,
+    }, headers);
+
+    return conditional || serveRange(c.req.raw, bytesSource(entry.body, entry.meta.etag, lastModified), headers);
+  };
+
+  // Entries cached before a no-store rule was added are ignored
+  const bypass = cached ? rules.resolve(path, cached.meta.contentType, defaultFreshness(c.env), 0).noStore : false;
+
+  // Assets uploaded as private
+  if (cached && !bypass && !signed && cached.meta.private) {
+    const failure = await signer.verify(c.req.raw, 'cdn', path);
+    if (failure) return signatureFailure(c, failure);
+    signed = true;
   }
 
-  // Fallback to R2
-  const object = await c.env.ASSETS.get(path);
+  // Concurrent fills of the key wait on one another; `reread` finds what another request cached
+  const coalescer = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+  const reread = async () => {
+    const entry = (await lookup())?.entry;
+    return entry && entryState(entry.meta) !== 'expired' ? entry : null;
+  };
 
-  if (!object) {
-    return c.json({ error: 'Not found' }, 404);
+  if (cached && !bypass) {
+    const state = entryState(cached.meta);
+
+    if (state === 'fresh') {
+      return serveCached(cached, 'HIT');
+    }
+
+    if (state === 'stale') {
+      // One request per key refreshes the entry; the rest find it refreshed
+      c.executionCtx.waitUntil(coalescer.run<CachedObject | null>(cacheKey, reread, async () => {
+        const result = await revalidateAsset(c.env, cache, rules, cacheKey, path, key, cached, true);
+        return result === 'revalidated' ? cached : null;
+      }));
+      return serveCached(cached, 'STALE');
+    }
+  } else if (cached) {
+    c.executionCtx.waitUntil(cache.delete(cacheKey));
   }
 
-  const body = await object.text();
-  const contentType = object.httpMetadata?.contentType || 'application/octet-stream';
-  const etag = object.etag;
+  // Expired entries and misses are filled by one request per key while the rest
+  // wait and serve what it cached. Ranged reads don't fill the cache, so they
+  // neither lead nor wait.
+  const wantsRange = c.req.header('Range') !== undefined;
+  let lease: FillLease<CachedObject> | undefined;
+
+  if (!bypass && !wantsRange) {
+    const claim = await coalescer.claim(cacheKey, reread);
+
+    if (claim.coalesced) {
+      if (claim.value.meta.private && !signed) {
+        const failure = await signer.verify(c.req.raw, 'cdn', path);
+        if (failure) return signatureFailure(c, failure);
+        signed = true;
+      }
+      return serveCached(claim.value, 'COALESCED');
+    }
 
-  // Cache in KV
-  const entry: CacheEntry = {
-    body,
-    contentType,
-    etag,
-    createdAt: Date.now(),
-    hits: 1,
-  };
+    lease = claim.lease;
+  }
 
-  await c.env.CACHE.put(cacheKey, JSON.stringify(entry), {
-    expirationTtl: parseInt(c.env.DEFAULT_TTL),
-  });
+  try {
+    // Expired: revalidate before serving, fall back to stale content on errors
+    if (cached && !bypass) {
+      try {
+        const result = await revalidateAsset(c.env, cache, rules, cacheKey, path, key, cached, false);
+        if (result === 'revalidated') {
+          lease?.release(cached);
+          return serveCached(cached, 'REVALIDATED');
+        }
+      } catch (e) {
+        if (usableOnError(cached.meta)) {
+          return serveCached(cached, 'STALE');
+        }
+        throw e;
+      }
+    }
 
-  return new Response(body, {
-    headers: {
-      'Content-Type': contentType,
-      'Cache-Control': `public, max-age=${c.env.MAX_AGE}`,
-      'ETag': etag,
-      'X-Cache': 'MISS',
-    },
-  });
-});
+    // Fallback to R2. Ranged and negotiated reads only need the metadata up front.
+    let object: R2Object | null;
+    let body: ReadableStream | undefined;
+    let privateAsset = false;
+
+    try {
+      if (encodings[0] !== 'identity') {
+        object = await c.env.ASSETS.head(key);
+        privateAsset = !!object && isPrivateObject(object);
+        const variant = object ? await findVariant(c.env.ASSETS, key, object, accepted, !wantsRange) : null;
+
+        if (variant) {
+          object = variant.object;
+          body = variant.body;
+        } else if (object && !wantsRange) {
+          const full = await c.env.ASSETS.get(key);
+          object = full;
+          body = full?.body;
+        }
+      } else if (wantsRange) {
+        object = await c.env.ASSETS.head(key);
+      } else {
+        const full = await c.env.ASSETS.get(key);
+        object = full;
+        body = full?.body;
+      }
+    } catch (e) {
+      if (cached && !bypass && usableOnError(cached.meta)) {
+        return serveCached(cached, 'STALE');
+      }
+      throw e;
+    }
+
+    if (!object) {
+      return c.json({ error: 'Not found' }, 404);
+    }
+
+    // The base asset decides privacy for the variants served in its place
+    privateAsset ||= isPrivateObject(object);
+    if (privateAsset && !signed) {
+      const failure = await signer.verify(c.req.raw, 'cdn', path);
+      if (failure) {
+        await body?.cancel();
+        return signatureFailure(c, failure);
+      }
+      signed = true;
+    }
+
+    const meta = { ...assetCacheMeta(object, key), private: privateAsset || undefined };
+    const policy = assetPolicy(c.env, rules, path, object);
+
+    const headers = policyHeaders(policy, {
+      ...representationHeaders(meta.contentType, meta.encoding),
+      'ETag': meta.etag,
+      'Last-Modified': object.uploaded.toUTCString(),
+      'X-Cache': policy.noStore ? 'BYPASS' : 'MISS',
+    });
+    if (signed) headers.set('Cache-Control', signedCacheControl(c.req.raw, parseInt(c.env.MAX_AGE)));
+    if (deployment) headers.set('X-Deployment-Id', deployment.deploymentId);
+
+    // Cache in KV off the response path; oversized objects are served from R2 only.
+    // Waiting requests are handed the entry once it is stored.
+    if (body && !policy.noStore && cache.fits(object.size)) {
+      const [clientBody, cacheBody] = body.tee();
+      body = clientBody;
+
+      const fill = lease;
+      lease = undefined;
+      c.executionCtx.waitUntil((async () => {
+        let entry: CachedObject | null = null;
+        try {
+          const bytes = await new Response(cacheBody).arrayBuffer();
+          // Keyed on the encoding actually stored, whatever the request preferred
+          if (await cache.put(variantCacheKey(`cache:${key}`, meta.encoding ?? 'identity'), bytes, meta, policy.freshness)) {
+            entry = { meta: cache.buildMeta(meta, policy.freshness), body: bytes };
+          }
+        } finally {
+          fill?.release(entry);
+        }
+      })());
+    }
+
+    const conditional = conditionalResponse(c.req.raw, {
+      exists: true,
+      etag: meta.etag,
+      lastModified: object.uploaded,
+    }, headers);
+
+    if (conditional) {
+      await body?.cancel();
+      return conditional;
+    }
+
+    return serveRange(c.req.raw, r2Source(c.env.ASSETS, object, body), headers);
+  } finally {
+    // Whatever this request didn't cache, waiting requests fetch for themselves
+    lease?.release(null);
+  }
+}
 
 // Upload asset
-app.put('/cdn/*', async (c) => {
+app.put('/cdn/*', requireScope('write', c => [cdnPath(c)]), async (c) => {
   const path = c.req.path.replace('/cdn/', '');
 
   if (!path) {
     return c.json({ error: 'Path required' }, 400);
   }
 
-  const contentType = c.req.header('Content-Type') || 'application/octet-stream';
+  if (isReservedPath(path)) {
+    return c.json({ error: 'Reserved path', path }, 403);
+  }
+
+  // Precompressed uploads (app.js.br) are stored as variants of the base asset
+  const variant = parseVariantPath(path);
+  const declaredType = c.req.header('Content-Type');
+  const contentType = variant && (!declaredType || declaredType === 'application/octet-stream')
+    ? contentTypeFor(variant.base)!
+    : declaredType || 'application/octet-stream';
+  const cacheControl = c.req.header('Cache-Control');
+  const isPrivate = c.req.header('X-Private') === 'true';
+
+  const tags = parseCacheTags(c.req.header('Cache-Tag'));
+  if (typeof tags === 'string') {
+    return c.json({ error: tags }, 400);
+  }
+
+  const current = await c.env.ASSETS.head(path);
+
+  if (current && isFingerprinted(current)) {
+    return c.json({ error: 'Fingerprinted assets are immutable', path }, 409);
+  }
+
+  // If-Match / If-None-Match: * guard against concurrent overwrites
+  const conditions = writeConditions(c.req.raw);
+  if (conditions && evaluatePreconditions(c.req.raw, assetValidators(current)) === 'failed') {
+    return c.json({ error: 'Precondition failed', etag: current?.httpEtag ?? null }, 412);
+  }
+
   const body = await c.req.arrayBuffer();
 
-  // Upload to R2
+  // Storage quotas are checked against the upload itself
+  const quota = await new QuotaManager(c.env, c.get('tenant')).checkStorage(path, body.byteLength);
+  if (quota.exceeded.length > 0) {
+    return quotaExceeded(c, quota.exceeded[0]);
+  }
+
+  // Precompressed variants only serve the original they were uploaded against
+  const base = variant ? await c.env.ASSETS.head(variant.base) : null;
+
+  const customMetadata: Record<string, string> = {
+    uploadedAt: String(Date.now()),
+    ...(variant ? { variantOf: variant.base, encoding: variant.encoding } : {}),
+    ...(base ? { baseEtag: base.etag } : {}),
+    ...(isPrivate ? { private: 'true' } : {}),
+  };
+
+  // Content-addressed copy for cache busting; precompressed variants are left out
+  const fingerprints = new FingerprintStore(c.env.ASSETS, c.env.CACHE);
+  const fingerprint = !variant && await fingerprints.shouldFingerprint(path, c.req.header('X-Fingerprint'))
+    ? await fingerprints.store(path, body, { contentType, customMetadata })
+    : null;
+
+  // Keep the version being replaced
+  await new VersionStore(c.env.ASSETS, c.env.CACHE).archive(current);
+
+  // Upload to R2, re-checking the conditions atomically
   const object = await c.env.ASSETS.put(path, body, {
-    httpMetadata: { contentType },
+    httpMetadata: { contentType, cacheControl, contentEncoding: variant?.encoding },
     customMetadata: {
-      uploadedAt: String(Date.now()),
+      ...customMetadata,
+      ...tagMetadata(tags),
+      ...(fingerprint ? { fingerprint: fingerprint.path } : {}),
     },
+    onlyIf: conditions,
   });
 
+  if (!object) {
+    return c.json({ error: 'Precondition failed' }, 412);
+  }
+
+  await new TagIndex(c.env.CACHE).update(path, tags, objectTags(current));
+
   // Invalidate cache
-  await c.env.CACHE.delete(`cache:${path}`);
+  await invalidateAsset(c.env.CACHE, path);
+  if (variant) {
+    await invalidateAsset(c.env.CACHE, variant.base);
+  }
+  forgetSiteFiles(c.env.ASSETS, path);
+
+  // The manifest changes when an asset gains, changes or loses its fingerprint
+  if (fingerprint || current?.customMetadata?.fingerprint) {
+    const locks = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+    c.executionCtx.waitUntil(fingerprints.refreshManifest(path, locks));
+  }
+
+  const warning = quotaWarningHeader(quota.warnings);
+  if (warning) c.header('X-Quota-Warning', warning);
 
   return c.json({
     path,
     size: body.byteLength,
     etag: object.etag,
     url: `/cdn/${path}`,
+    hashedUrl: fingerprint ? `/cdn/${fingerprint.path}` : undefined,
+    hash: fingerprint?.hash,
+    variantOf: variant?.base,
+    private: isPrivate,
+    tags,
   });
 });
 
 // Delete asset
-app.delete('/cdn/*', async (c) => {
+app.delete('/cdn/*', requireScope('write', c => [cdnPath(c)]), async (c) => {
   const path = c.req.path.replace('/cdn/', '');
 
   if (!path) {
     return c.json({ error: 'Path required' }, 400);
   }
 
-  // Delete from R2
-  await c.env.ASSETS.delete(path);
+  if (isReservedPath(path)) {
+    return c.json({ error: 'Reserved path', path }, 403);
+  }
 
-  // Delete from cache
-  await c.env.CACHE.delete(`cache:${path}`);
+  const current = await c.env.ASSETS.head(path);
+  if (writeConditions(c.req.raw) && evaluatePreconditions(c.req.raw, assetValidators(current)) === 'failed') {
+    return c.json({ error: 'Precondition failed', etag: current?.httpEtag ?? null }, 412);
+  }
+
+  // Keep the deleted version so it can be restored
+  await new VersionStore(c.env.ASSETS, c.env.CACHE).archive(current);
+
+  // Delete from R2, along with the gzip variant generated for it
+  const generated = await c.env.ASSETS.head(variantKey(path, 'gzip'));
+  await c.env.ASSETS.delete(
+    generated?.customMetadata?.generated === 'true' ? [path, generated.key] : [path],
+  );
+
+  // Delete from cache and the tag index
+  await invalidateAsset(c.env.CACHE, path);
+  await new TagIndex(c.env.CACHE).remove(path, objectTags(current));
+  forgetSiteFiles(c.env.ASSETS, path);
+
+  // Fingerprinted copies stay for pages still referencing them; the manifest drops the asset
+  if (current?.customMetadata?.fingerprint) {
+    const fingerprints = new FingerprintStore(c.env.ASSETS, c.env.CACHE);
+    const locks = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+    c.executionCtx.waitUntil(fingerprints.refreshManifest(path, locks));
+  }
 
   return c.json({ deleted: true, path });
 });
 
 // Purge cache
-app.post('/purge', async (c) => {
-  const body = await c.req.json<{ paths?: string[]; all?: boolean }>();
-
-  if (body.all) {
-    // Purge all - list and delete
-    const list = await c.env.CACHE.list({ prefix: 'cache:' });
-    for (const key of list.keys) {
-      await c.env.CACHE.delete(key.name);
-    }
-    return c.json({ purged: list.keys.length, all: true });
+app.post('/purge', requireScope('purge', async (c) => {
+  const body = await c.req.json<PurgeSpec>();
+  // Malformed specs are refused by the handler
+  if (validatePurgeSpec(body).length > 0) return [];
+  // Purging everything needs an unrestricted key; tag purges are limited to the key's prefixes
+  if (body.all) return [''];
+  return [
+    ...body.paths ?? [],
+    ...body.prefixes ?? [],
+    ...(body.globs ?? []).map(globPrefix),
+  ];
+}), async (c) => {
+  const { async: background, ...spec } = await c.req.json<PurgeSpec & { async?: boolean }>();
+
+  const errors = validatePurgeSpec(spec);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid purge', details: errors }, 400);
   }
 
-  if (body.paths) {
-    for (const path of body.paths) {
-      await c.env.CACHE.delete(`cache:${path}`);
-    }
-    return c.json({ purged: body.paths.length, paths: body.paths });
+  if (!spec.all && !spec.paths?.length && !spec.tags?.length && !spec.prefixes?.length && !spec.globs?.length) {
+    return c.json({ error: 'Specify paths, tags, prefixes, globs or all: true' }, 400);
+  }
+
+  const key = c.get('apiKey');
+  const jobs = new PurgeJobManager(c.env.CACHE, c.env.LOCKS);
+  let job = await jobs.create(spec, key?.id, key?.prefixes);
+
+  // Small purges finish inside the request; the rest carry on in the background
+  // with what is left of the invocation's budget
+  const budget = purgeBudget(BACKGROUND_BUDGET);
+  if (!background) {
+    job = await withinBudget(budget, INLINE_BUDGET, inline => jobs.run(job.id, inline)) ?? job;
   }
 
-  return c.json({ error: 'Specify paths or all: true' }, 400);
+  if (job.status === 'completed') {
+    return c.json({ purged: job.deleted, ...publicJob(job) });
+  }
+
+  c.executionCtx.waitUntil(jobs.run(job.id, budget));
+
+  return c.json({ jobId: job.id, status: job.status, statusUrl: `/purge/${job.id}` }, 202);
+});
+
+/**
+ * Purge and preload jobs are visible to the key that started them, or an admin key
+ */
+function ownsJob(key: ApiKeyRecord | undefined, keyId: string | undefined): boolean {
+  if (!keyId || !key) return true;
+  return key.id === keyId || hasScope(key, 'admin');
+}
+
+// Page sizes for job listings; KV lists at most 1000 keys at a time
+function pageLimit(value: string | undefined): number {
+  return Math.min(Math.max(parseInt(value || '100') || 100, 1), 1000);
+}
+
+// Purge job history
+app.get('/purge', requireScope('purge'), async (c) => {
+  // Keys without the admin scope page through only the jobs they started
+  const key = c.get('apiKey');
+  const { jobs, cursor } = await new PurgeJobManager(c.env.CACHE, c.env.LOCKS).list({
+    cursor: c.req.query('cursor'),
+    limit: pageLimit(c.req.query('limit')),
+    keyId: key && !hasScope(key, 'admin') ? key.id : undefined,
+  });
+
+  return c.json({ jobs, cursor });
+});
+
+// Purge job progress
+app.get('/purge/:jobId', requireScope('purge'), async (c) => {
+  const job = await new PurgeJobManager(c.env.CACHE, c.env.LOCKS).get(c.req.param('jobId'));
+  if (!job || !ownsJob(c.get('apiKey'), job.keyId)) {
+    return c.json({ error: 'Purge job not found' }, 404);
+  }
+  return c.json({ job: publicJob(job) });
 });
 
 // List assets
-app.get('/assets', async (c) => {
+app.get('/assets', requireScope('read', c => [c.req.query('prefix') || '']), async (c) => {
   const prefix = c.req.query('prefix') || '';
   const limit = parseInt(c.req.query('limit') || '100');
 
   const list = await c.env.ASSETS.list({ prefix, limit });
 
-  const assets = list.objects.map(obj => ({
+  const assets = list.objects.filter(obj => !isReservedPath(obj.key)).map(obj => ({
     key: obj.key,
     size: obj.size,
     etag: obj.etag,
@@ -235,88 +854,174 @@ app.get('/image/*', async (c) => {
     return c.json({ error: 'Path required' }, 400);
   }
 
+  if (isReservedPath(path)) {
+    return c.json({ error: 'Image not found' }, 404);
+  }
+
+  const signer = new UrlSigner(c.env.CACHE);
+  const signed = await signer.isPrivatePath(path);
+  if (signed) {
+    const failure = await signer.verify(c.req.raw, 'image', path);
+    if (failure) return signatureFailure(c, failure);
+  }
+
+  // Egress and transforms are limited per month
+  const quota = await new QuotaManager(c.env, c.get('tenant')).checkTraffic(path);
+  const overEgress = quota.exceeded.find(status => status.metric === 'egressBytes');
+  if (overEgress) {
+    return quotaExceeded(c, overEgress);
+  }
+  const warning = quotaWarningHeader(quota.warnings);
+
   // Build cache key with transform params
   const transformKey = `${path}?w=${width}&h=${height}&q=${quality}&f=${format}`;
   const cacheKey = `transform:${transformKey}`;
 
+  const rules = new CachePolicyEngine(c.env.CACHE);
+  await rules.loadRules();
+
   // Check transform cache
-  const cached = await c.env.CACHE.get(cacheKey, 'arrayBuffer');
-  if (cached) {
-    return new Response(cached, {
-      headers: {
-        'Content-Type': `image/${format === 'auto' ? 'webp' : format}`,
-        'Cache-Control': `public, max-age=${c.env.MAX_AGE}`,
-        'X-Cache': 'HIT',
-      },
+  const readTransform = async (): Promise<CachedTransform | null> => {
+    const { value, metadata } = await c.env.CACHE.getWithMetadata<{ private?: boolean }>(cacheKey, 'arrayBuffer');
+    return value ? { body: value, private: metadata?.private } : null;
+  };
+
+  const serveTransform = async (transform: CachedTransform, status: 'HIT' | 'COALESCED') => {
+    if (transform.private && !signed) {
+      const failure = await signer.verify(c.req.raw, 'image', path);
+      if (failure) return signatureFailure(c, failure);
+    }
+
+    const contentType = `image/${format === 'auto' ? 'webp' : format}`;
+    const policy = rules.resolve(path, contentType, defaultFreshness(c.env), parseInt(c.env.MAX_AGE));
+    const headers = policyHeaders(policy, {
+      'Content-Type': contentType,
+      'Content-Length': String(transform.body.byteLength),
+      'X-Cache': status,
     });
+    if (signed || transform.private) {
+      headers.set('Cache-Control', signedCacheControl(c.req.raw, parseInt(c.env.MAX_AGE)));
+    }
+    if (warning) headers.set('X-Quota-Warning', warning);
+
+    return new Response(transform.body, { headers });
+  };
+
+  const cached = await readTransform();
+  if (cached) {
+    return await serveTransform(cached, 'HIT');
   }
 
-  // Get original from R2
-  const object = await c.env.ASSETS.get(path);
-  if (!object) {
-    return c.json({ error: 'Image not found' }, 404);
+  // One request per transform reads and transforms the original; the rest wait and serve its result
+  const coalescer = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+  const claim = await coalescer.claim(cacheKey, readTransform);
+  if (claim.coalesced) {
+    return await serveTransform(claim.value, 'COALESCED');
   }
 
-  // For now, return original (real impl would use cf image resizing)
-  const body = await object.arrayBuffer();
+  let lease: FillLease<CachedTransform> | undefined = claim.lease;
+  try {
+    // Only cache misses are transformed
+    const overTransforms = quota.exceeded.find(status => status.metric === 'transforms');
+    if (overTransforms) {
+      return quotaExceeded(c, overTransforms);
+    }
+
+    // Get original from R2
+    const object = await c.env.ASSETS.get(path);
+    if (!object) {
+      return c.json({ error: 'Image not found' }, 404);
+    }
+
+    const privateAsset = signed || isPrivateObject(object);
+    if (privateAsset && !signed) {
+      const failure = await signer.verify(c.req.raw, 'image', path);
+      if (failure) {
+        await object.body.cancel();
+        return signatureFailure(c, failure);
+      }
+    }
 
-  // In production, you would use:
-  // const resizedUrl = `https://imagedelivery.net/.../w=${width},h=${height},q=${quality}`;
-  // or Cloudflare Image Resizing
+    // For now, return original (real impl would use cf image resizing)
+    const body = await object.arrayBuffer();
 
-  return new Response(body, {
-    headers: {
+    // In production, you would use:
+    // const resizedUrl = `https://imagedelivery.net/.../w=${width},h=${height},q=${quality}`;
+    // or Cloudflare Image Resizing
+
+    const policy = assetPolicy(c.env, rules, path, object);
+    const headers = policyHeaders(policy, {
       'Content-Type': object.httpMetadata?.contentType || 'image/jpeg',
-      'Cache-Control': `public, max-age=${c.env.MAX_AGE}`,
+      'Content-Length': String(body.byteLength),
       'X-Cache': 'MISS',
-    },
-  });
+    });
+    if (privateAsset) {
+      headers.set('Cache-Control', signedCacheControl(c.req.raw, parseInt(c.env.MAX_AGE)));
+    }
+    if (warning) headers.set('X-Quota-Warning', warning);
+
+    // Cache the transform for its TTL (at least KV's minimum); waiting requests are handed it once stored
+    if (!policy.noStore && createEdgeCache(c.env).fits(body.byteLength)) {
+      const transform = { body, private: privateAsset || undefined };
+      const fill = lease;
+      lease = undefined;
+      c.executionCtx.waitUntil(
+        c.env.CACHE.put(cacheKey, body, {
+          metadata: { private: transform.private },
+          expirationTtl: Math.max(policy.freshness.ttl, 60),
+        }).then(() => fill.release(transform), () => fill.release(null)),
+      );
+    }
+
+    return new Response(body, { headers });
+  } finally {
+    lease?.release(null);
+  }
 });
 
 // Proxy and cache external URL
-app.post('/proxy', async (c) => {
+app.post('/proxy', requireScope('write'), async (c) => {
   const body = await c.req.json<{ url: string; ttl?: number }>();
 
   if (!body.url) {
     return c.json({ error: 'URL required' }, 400);
   }
 
-  const cacheKey = `proxy:${body.url}`;
+  const guard = new ProxyGuard(c.env.CACHE);
+  const refused = await guard.check(body.url);
+  if (refused) {
+    return proxyFailure(c, refused);
+  }
+
+  // `ttl` applies when the origin doesn't say how long to keep the response
+  const proxyCache = new ProxyCache(createEdgeCache(c.env), guard, { policy: { ttl: body.ttl } });
 
   // Check cache
-  const cached = await c.env.CACHE.get(cacheKey, 'json') as CacheEntry | null;
-  if (cached) {
+  const { entry: cached } = await proxyCache.lookup(body.url);
+  if (cached && entryState(cached.meta) !== 'expired') {
     return c.json({
       cached: true,
-      contentType: cached.contentType,
-      hits: cached.hits,
+      state: entryState(cached.meta),
+      contentType: cached.meta.contentType,
     });
   }
 
   // Fetch and cache
   try {
-    const response = await fetch(body.url);
-    const content = await response.text();
-    const contentType = response.headers.get('Content-Type') || 'text/plain';
-
-    const entry: CacheEntry = {
-      body: content,
-      contentType,
-      etag: `"${Date.now()}"`,
-      createdAt: Date.now(),
-      hits: 0,
-    };
-
-    await c.env.CACHE.put(cacheKey, JSON.stringify(entry), {
-      expirationTtl: body.ttl || parseInt(c.env.DEFAULT_TTL),
-    });
+    const { stored, status, entry } = await proxyCache.fill(body.url);
 
     return c.json({
       cached: false,
-      contentType,
-      size: content.length,
+      stored,
+      status,
+      contentType: entry.meta.contentType,
+      size: entry.meta.size,
+      freshUntil: stored ? new Date(entry.meta.freshUntil).toISOString() : undefined,
     });
   } catch (e) {
+    if (e instanceof ProxyError) {
+      return proxyFailure(c, e.reason);
+    }
     return c.json({ error: 'Failed to fetch URL' }, 500);
   }
 });
@@ -329,91 +1034,343 @@ app.get('/proxy', async (c) => {
     return c.json({ error: 'URL query parameter required' }, 400);
   }
 
-  const cacheKey = `proxy:${url}`;
-  const cached = await c.env.CACHE.get(cacheKey, 'json') as CacheEntry | null;
+  // Origins taken off the allowlist stop being served from cache too
+  const guard = new ProxyGuard(c.env.CACHE);
+  const refused = await guard.check(url);
+  if (refused) {
+    return proxyFailure(c, refused);
+  }
+
+  return await serveProxied(c, new ProxyCache(createEdgeCache(c.env), guard), url);
+});
+
+// Pull zones: configured origins served under /zone/<name>/
+app.get('/zone/:name/*', async (c) => {
+  const zone = await new ZoneStore(c.env.CACHE).get(c.req.param('name'));
+  if (!zone) {
+    return c.json({ error: 'Zone not found' }, 404);
+  }
+
+  // The raw path, so encoded characters reach the origin as sent
+  const requestUrl = new URL(c.req.url);
+  const target = zoneTarget(zone, requestUrl.pathname.slice(`/zone/${zone.name}/`.length), requestUrl.search);
+  if (!target) {
+    return c.json({ error: 'Not found' }, 404);
+  }
+
+  // Zone origins are fetched as configured, without the proxy allowlist, and
+  // their redirects are passed on rather than followed
+  const proxyCache = new ProxyCache(createEdgeCache(c.env), new ProxyGuard(c.env.CACHE), {
+    key: () => target.key,
+    policy: zone.cache,
+    requestHeaders: zone.requestHeaders,
+    fetch: { origins: [zoneOrigin(zone)], followRedirects: false },
+  });
+
+  const response = await serveProxied(c, proxyCache, target.url, true);
+
+  const location = response.headers.get('Location');
+  if (location) {
+    response.headers.set('Location', zoneLocation(zone, location, target.url));
+  }
+  return response;
+});
+
+/**
+ * Serve a URL from the proxy cache, going to the origin for misses and expired
+ * entries. Failed fetches fall back to stale content; with `passErrors`, an
+ * origin's 5xx is passed on instead of a 502.
+ */
+async function serveProxied(c: Context<AppEnv>, proxyCache: ProxyCache, url: string, passErrors = false): Promise<Response> {
+  const { key, entry: cached } = await proxyCache.lookup(url, c.req.raw);
+
+  const serve = (result: ProxyResult, status: ProxyCacheStatus) => proxyResponse(c.req.raw, result, status);
+  const fromCache = (entry: CachedObject) => ({ entry, status: 200, stored: true });
+
+  // Concurrent origin fetches of the URL wait on one another; only stored responses are shared
+  const coalescer = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+  const flight = proxyCache.flightKey(url, c.req.raw);
+  const reread = async () => {
+    const { entry } = await proxyCache.lookup(url, c.req.raw);
+    return entry && entryState(entry.meta) !== 'expired' ? fromCache(entry) : null;
+  };
+  const stored = (result: ProxyResult) => result.stored;
 
   if (cached) {
-    cached.hits += 1;
-    await c.env.CACHE.put(cacheKey, JSON.stringify(cached));
-
-    return new Response(cached.body, {
-      headers: {
-        'Content-Type': cached.contentType,
-        'X-Cache': 'HIT',
-      },
-    });
+    const state = entryState(cached.meta);
+
+    if (state === 'fresh') {
+      return serve(fromCache(cached), 'HIT');
+    }
+
+    if (state === 'stale') {
+      c.executionCtx.waitUntil(coalescer.run<ProxyResult>(flight, reread, () => proxyCache.revalidate(url, key, cached, c.req.raw), stored));
+      return serve(fromCache(cached), 'STALE');
+    }
   }
 
-  // Fetch fresh
+  // Expired: revalidate with the origin before serving, fall back to stale content on errors.
+  // Misses: fetch, caching what the origin allows.
   try {
-    const response = await fetch(url);
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': response.headers.get('Content-Type') || 'text/plain',
-        'X-Cache': 'MISS',
-      },
-    });
+    const { value: result, coalesced } = await coalescer.run<ProxyResult & { revalidated?: boolean }>(
+      flight,
+      reread,
+      () => cached ? proxyCache.revalidate(url, key, cached, c.req.raw) : proxyCache.fill(url, c.req.raw),
+      stored,
+    );
+
+    if (coalesced) {
+      return serve(result, 'COALESCED');
+    }
+    return serve(result, result.revalidated ? 'REVALIDATED' : result.stored ? 'MISS' : 'BYPASS');
   } catch (e) {
-    return c.json({ error: 'Failed to fetch' }, 500);
+    if (cached && usableOnError(cached.meta)) {
+      return serve(fromCache(cached), 'STALE');
+    }
+    if (e instanceof ProxyError) {
+      return proxyFailure(c, e.reason);
+    }
+    if (passErrors && e instanceof OriginError) {
+      return serve(e.result, 'BYPASS');
+    }
+    return c.json({ error: 'Failed to fetch' }, 502);
   }
-});
+}
 
 // Stats
-app.get('/stats', async (c) => {
-  const cacheList = await c.env.CACHE.list({ prefix: 'cache:' });
-  const assetList = await c.env.ASSETS.list();
-
-  let totalHits = 0;
-  let totalSize = 0;
+app.get('/stats', requireScope('read', c => [c.req.query('prefix') || '']), async (c) => {
+  const granularity = (c.req.query('granularity') || 'hour') as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    return c.json({ error: `granularity must be one of ${GRANULARITIES.join(', ')}` }, 400);
+  }
 
-  for (const key of cacheList.keys) {
-    const data = await c.env.CACHE.get(key.name, 'json') as CacheEntry | null;
-    if (data) {
-      totalHits += data.hits;
-    }
+  const route = c.req.query('route') as AnalyticsRoute | undefined;
+  if (route && !ROUTES.includes(route)) {
+    return c.json({ error: `route must be one of ${ROUTES.join(', ')}` }, 400);
   }
 
-  for (const obj of assetList.objects) {
-    totalSize += obj.size;
+  // Last 24 hours by default
+  const to = parseTime(c.req.query('to'), Date.now());
+  const from = parseTime(c.req.query('from'), to - 86400 * 1000);
+  if (isNaN(from) || isNaN(to) || from > to) {
+    return c.json({ error: 'from and to must be dates or epoch milliseconds, from before to' }, 400);
   }
 
+  const query: StatsQuery = {
+    granularity,
+    from,
+    to,
+    // Tenants only see their own traffic; the shared host may pick a tenant
+    tenant: c.get('tenant')?.id ?? c.req.query('tenant'),
+    route,
+    prefix: c.req.query('prefix'),
+    contentType: c.req.query('contentType'),
+    country: c.req.query('country'),
+    top: Math.min(parseInt(c.req.query('top') || '10') || 10, 100),
+  };
+
+  const stats = await queryStats(c.env, query);
+
   return c.json({
-    cachedItems: cacheList.keys.length,
-    storedAssets: assetList.objects.length,
-    totalHits,
-    totalStorageBytes: totalSize,
-    totalStorageMB: (totalSize / (1024 * 1024)).toFixed(2),
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    granularity,
+    filters: { tenant: query.tenant, route, prefix: query.prefix, contentType: query.contentType, country: query.country },
+    ...stats,
+    series: stats.series.map(({ bucket, ...counters }) => ({ time: new Date(bucket).toISOString(), ...counters })),
   });
 });
 
-// Preload assets
-app.post('/preload', async (c) => {
-  const body = await c.req.json<{ urls: string[] }>();
+// Preload assets as a background job
+app.post('/preload', requireScope('write', async (c) => {
+  const body = await c.req.json<PreloadSpec>();
+  // Listed URLs are checked path by path; sitemaps and manifests by the literal start of the mapping
+  const paths = Array.isArray(body.urls)
+    ? body.urls.flatMap(url => preloadPath(url, body) ?? [])
+    : [];
+  if (body.sitemap || body.manifest) {
+    paths.push(`${body.prefix ?? ''}${templatePrefix(body.template)}`);
+  }
+  return paths;
+}), async (c) => {
+  const { async: background, ...spec } = await c.req.json<PreloadSpec & { async?: boolean }>();
 
-  const results = [];
+  const errors = validatePreload(spec);
+  if (errors.length > 0) {
+    return c.json({ error: 'Invalid preload', details: errors }, 400);
+  }
 
-  for (const url of body.urls) {
-    try {
-      const response = await fetch(url);
-      const content = await response.arrayBuffer();
-      const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
+  const key = c.get('apiKey');
+  const jobs = new PreloadJobManager(c.env, c.get('tenant'));
+  let job = await jobs.create(spec, key?.id, key?.prefixes);
 
-      // Extract path from URL
-      const urlObj = new URL(url);
-      const path = urlObj.pathname.replace(/^\//, '');
+  // Small preloads finish inside the request; the rest carry on in the background
+  // with what is left of the invocation's budget
+  const budget = purgeBudget(BACKGROUND_BUDGET);
+  if (!background) {
+    job = await withinBudget(budget, INLINE_BUDGET, inline => jobs.run(job.id, inline)) ?? job;
+  }
 
-      // Store in R2
-      await c.env.ASSETS.put(path, content, {
-        httpMetadata: { contentType },
-      });
+  if (job.status === 'completed') {
+    const preloaded = job.results.filter(result => result !== null);
+    const overQuota = preloaded.find(result => result.quota)?.quota;
 
-      results.push({ url, path, size: content.byteLength, status: 'ok' });
-    } catch (e) {
-      results.push({ url, status: 'failed', error: (e as Error).message });
+    // Nothing stored because of a quota: the request as a whole is rejected
+    if (overQuota && job.stored === 0) {
+      return c.json({ error: 'Storage quota exceeded', quota: overQuota, ...publicPreloadJob(job), preloaded }, 413);
     }
+
+    const warning = quotaWarningHeader(job.warnings);
+    if (warning) c.header('X-Quota-Warning', warning);
+
+    return c.json({ ...publicPreloadJob(job), preloaded });
+  }
+
+  c.executionCtx.waitUntil(jobs.run(job.id, budget));
+
+  return c.json({ jobId: job.id, status: job.status, statusUrl: `/preload/${job.id}` }, 202);
+});
+
+// Preload job history
+app.get('/preload', requireScope('write'), async (c) => {
+  // Keys without the admin scope page through only the jobs they started
+  const key = c.get('apiKey');
+  const { jobs, cursor } = await new PreloadJobManager(c.env, c.get('tenant')).list({
+    cursor: c.req.query('cursor'),
+    limit: pageLimit(c.req.query('limit')),
+    keyId: key && !hasScope(key, 'admin') ? key.id : undefined,
+  });
+
+  return c.json({ jobs, cursor });
+});
+
+// Preload job progress and per-URL results, a page at a time
+app.get('/preload/:jobId', requireScope('write'), async (c) => {
+  const job = await new PreloadJobManager(c.env, c.get('tenant')).get(c.req.param('jobId'));
+  if (!job || !ownsJob(c.get('apiKey'), job.keyId)) {
+    return c.json({ error: 'Preload job not found' }, 404);
   }
 
-  return c.json({ preloaded: results });
+  const status = c.req.query('status');
+  if (status !== undefined && !['ok', 'failed', 'pending'].includes(status)) {
+    return c.json({ error: 'status must be ok, failed or pending' }, 400);
+  }
+
+  const page = preloadResults(job, {
+    cursor: Math.max(parseInt(c.req.query('cursor') || '0') || 0, 0),
+    limit: pageLimit(c.req.query('limit')),
+    status: status as 'ok' | 'failed' | 'pending' | undefined,
+  });
+  return c.json({ job: publicPreloadJob(job), ...page });
 });
 
-export default app;
+// API key admin
+app.route('/', createKeyRoutes());
+
+// Signed URLs and private assets
+app.route('/', createSigningRoutes());
+
+// Cache policy rules admin
+app.route('/', createRulesRoutes());
+
+// Resumable multipart uploads
+app.route('/', createMultipartRoutes());
+
+// Access log queries
+app.route('/', createLogRoutes());
+
+// Version history and rollback
+app.route('/', createVersionRoutes());
+
+// Atomic deployments and aliases
+app.route('/', createDeploymentRoutes());
+
+// Fingerprinted assets and manifests
+app.route('/', createFingerprintRoutes());
+
+// Static site hosting
+app.route('/', createHostingRoutes());
+
+// Tenants and custom domains
+app.route('/', createTenantRoutes());
+
+// Quotas and usage reports
+app.route('/', createQuotaRoutes());
+
+// Proxy allowlist and fetch limits
+app.route('/', createProxyRoutes());
+
+// Pull zone admin
+app.route('/', createZoneRoutes());
+
+// Landing pages
+app.route('/', createLandingRoutes());
+
+export { AnalyticsStore } from './analytics';
+export { UsageMeter } from './quotas';
+export { FillLock } from './coalesce';
+
+/**
+ * Continue queued purge and preload jobs of the tenants that have some, on one
+ * budget for the whole invocation. Tenants take turns going first, so one
+ * tenant's backlog can't hold up the others for good.
+ */
+async function resumeJobs(env: Env, scheduledTime: number): Promise<void> {
+  const budget = purgeBudget(BACKGROUND_BUDGET);
+  const pending = await listPendingJobs(env.CACHE);
+  const tenants = new TenantStore(env.CACHE);
+  budget.operations -= 1;
+
+  const first = pending.length > 0 ? Math.floor(scheduledTime / 60_000) % pending.length : 0;
+
+  for (const entry of [...pending.slice(first), ...pending.slice(0, first)]) {
+    if (Date.now() >= budget.deadline || budget.operations <= 0) return;
+
+    const tenant = entry.tenantId ? await tenants.get(entry.tenantId) : undefined;
+    budget.operations -= 1;
+
+    // Jobs of a removed tenant are abandoned with it
+    if (tenant === null) {
+      await clearJobsPending(env.CACHE, { ...entry, markedAt: 0 });
+      continue;
+    }
+
+    const scoped = tenant ? tenantEnv(env, tenant) : env;
+    const purges = await new PurgeJobManager(scoped.CACHE, scoped.LOCKS).resumePending(budget);
+    const preloads = await new PreloadJobManager(scoped, tenant).resumePending(budget);
+
+    if (!purges && !preloads) {
+      await clearJobsPending(env.CACHE, entry);
+    }
+  }
+}
+
+/**
+ * Put tenants with queued jobs back in the pending index, in case marking them failed
+ */
+async function sweepQueuedJobs(kv: KVNamespace): Promise<void> {
+  const queues = await Promise.all(['purge-queue:', 'preload-queue:'].map(prefix => kv.list({ prefix, limit: 1 })));
+  if (queues.some(list => list.keys.length > 0)) {
+    await markJobsPending(kv);
+  }
+}
+
+export default {
+  fetch: app.fetch,
+
+  // Resume purge and preload jobs that outlived the request that started them.
+  // Once an hour every tenant is visited to collect expired deployments and
+  // re-index queued jobs.
+  async scheduled(controller: ScheduledController, sharedEnv: Env, ctx: ExecutionContext) {
+    const env = meteredEnv(sharedEnv, ctx);
+    ctx.waitUntil(resumeJobs(env, controller.scheduledTime));
+
+    if (new Date(controller.scheduledTime).getUTCMinutes() !== 0) return;
+
+    const tenants = await new TenantStore(env.CACHE).list();
+    for (const scoped of [env, ...tenants.map(tenant => tenantEnv(env, tenant))]) {
+      ctx.waitUntil(new DeploymentStore(scoped.ASSETS, scoped.CACHE).collectGarbage());
+      ctx.waitUntil(sweepQueuedJobs(scoped.CACHE));
+    }
+  },
+};
@@ -13,6 +13,7 @@
  */
 
 import { Hono } from 'hono';
+import { AppEnv } from './env';
 
 // BlackRoad Design System
 const COLORS = {
@@ -640,8 +641,8 @@ export function generateLandingPage(config: LandingPageConfig): string {
 /**
  * Landing Page API Routes
  */
-export function createLandingRoutes(): Hono {
-  const app = new Hono();
+export function createLandingRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
 
   // Generate landing page from config
   app.post('/landing/generate', async (c) => {
@@ -653,7 +654,7 @@ export function createLandingRoutes(): Hono {
   // Serve landing page from KV config
   app.get('/landing/:slug', async (c) => {
     const slug = c.req.param('slug');
-    const kv = c.env?.KV as KVNamespace | undefined;
+    const kv = c.env?.CACHE as KVNamespace | undefined;
 
     if (!kv) {
       return c.json({ error: 'KV not configured' }, 500);
@@ -672,7 +673,7 @@ export function createLandingRoutes(): Hono {
   app.put('/landing/:slug', async (c) => {
     const slug = c.req.param('slug');
     const config: LandingPageConfig = await c.req.json();
-    const kv = c.env?.KV as KVNamespace | undefined;
+    const kv = c.env?.CACHE as KVNamespace | undefined;
 
     if (!kv) {
       return c.json({ error: 'KV not configured' }, 500);
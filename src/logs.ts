@@ -0,0 +1,244 @@
+/**
+ * RoadCDN Access Logs
+ *
+ * Features:
+ * - One structured record per request
+ * - Buffered per isolate for a few seconds, written to R2 as gzipped NDJSON
+ * - Files partitioned by hour (`__logs/YYYY/MM/DD/HH/`)
+ * - Query endpoint for recent records by path, status and time range
+ */
+
+import { Hono, MiddlewareHandler } from 'hono';
+import { AppEnv, Env } from './env';
+import { gzip } from './compression';
+import { parseTime } from './analytics';
+
+export interface AccessLogRecord {
+  ts: string; // ISO timestamp
+  tenant?: string;
+  method: string;
+  host: string;
+  path: string;
+  status: number;
+  bytes: number;
+  cache?: string; // X-Cache
+  country?: string;
+  colo?: string;
+  latency: number; // ms
+  userAgent?: string;
+  referer?: string;
+}
+
+// Log files live under this prefix in their bucket
+export const LOG_PREFIX = '__logs/';
+
+// Write a file once the buffer holds this many records, or this long after the
+// first of them, from the waitUntil of the request that logged it
+const FLUSH_RECORDS = 500;
+const FLUSH_DELAY = 5_000;
+
+// Records beyond this are dropped while R2 is failing
+const MAX_PENDING = 10_000;
+
+// Queries read at most this far back and return at most this many records
+const MAX_QUERY_RANGE = 86400 * 1000; // 24 hours
+const MAX_QUERY_LIMIT = 1000;
+
+// Buffered in the isolate between requests
+let pending: AccessLogRecord[] = [];
+let flushScheduled = false;
+
+/**
+ * Bucket logs are written to: the dedicated LOGS bucket, or ASSETS
+ */
+function logBucket(env: Env): R2Bucket {
+  return env.LOGS ?? env.ASSETS;
+}
+
+/**
+ * Partition prefix for the hour a time falls in
+ */
+function hourPrefix(time: number): string {
+  const iso = new Date(time).toISOString(); // 2024-06-01T13:45:00.000Z
+  return `${LOG_PREFIX}${iso.slice(0, 4)}/${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(11, 13)}/`;
+}
+
+/**
+ * Write records to one file per hour they fall in
+ */
+async function flush(env: Env, records: AccessLogRecord[]): Promise<void> {
+  const byHour = new Map<string, AccessLogRecord[]>();
+  for (const record of records) {
+    const prefix = hourPrefix(Date.parse(record.ts));
+    byHour.set(prefix, [...byHour.get(prefix) ?? [], record]);
+  }
+
+  await Promise.all([...byHour].map(async ([prefix, batch]) => {
+    const ndjson = batch.map(record => JSON.stringify(record)).join('\n') + '\n';
+    const body = await gzip(new Response(ndjson).body!);
+
+    try {
+      await logBucket(env).put(`${prefix}${Date.now()}-${crypto.randomUUID().slice(0, 8)}.ndjson.gz`, body, {
+        httpMetadata: { contentType: 'application/x-ndjson', contentEncoding: 'gzip' },
+        customMetadata: { records: String(batch.length) },
+      });
+    } catch (e) {
+      // Keep the records for the next flush, within limits
+      pending = [...batch, ...pending];
+      trimPending(e);
+    }
+  }));
+}
+
+function trimPending(reason?: unknown): void {
+  if (pending.length > MAX_PENDING) {
+    console.error(`Access logs: dropped ${pending.length - MAX_PENDING} records`, reason ?? '');
+    pending = pending.slice(-MAX_PENDING);
+  }
+}
+
+function flushPending(env: Env): Promise<void> {
+  const records = pending;
+  pending = [];
+  return flush(env, records);
+}
+
+/**
+ * Log every request
+ */
+export function accessLog(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const start = Date.now();
+    await next();
+
+    const url = new URL(c.req.url);
+    const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+
+    pending.push({
+      ts: new Date(start).toISOString(),
+      tenant: c.get('tenant')?.id,
+      method: c.req.method,
+      host: url.host,
+      path: url.pathname,
+      status: c.res.status,
+      bytes: parseInt(c.res.headers.get('Content-Length') || '0') || 0,
+      cache: c.res.headers.get('X-Cache') ?? undefined,
+      country: cf?.country,
+      colo: cf?.colo,
+      latency: Date.now() - start,
+      userAgent: c.req.header('User-Agent'),
+      referer: c.req.header('Referer'),
+    });
+    trimPending();
+
+    if (pending.length >= FLUSH_RECORDS) {
+      c.executionCtx.waitUntil(flushPending(c.env));
+    } else if (!flushScheduled) {
+      // Held open by this request, so the records are written even if no other request follows
+      flushScheduled = true;
+      c.executionCtx.waitUntil(new Promise(resolve => setTimeout(resolve, FLUSH_DELAY)).then(() => {
+        flushScheduled = false;
+        return flushPending(c.env);
+      }));
+    }
+  };
+}
+
+/**
+ * Whether a record's status matches "404" or a class like "5xx"
+ */
+function statusMatches(filter: string, status: number): boolean {
+  const match = filter.match(/^([1-5])xx$/i);
+  return match ? Math.floor(status / 100) === parseInt(match[1]) : String(status) === filter;
+}
+
+/**
+ * Read records in a time range, newest hour first
+ */
+async function queryLogs(
+  bucket: R2Bucket,
+  options: { from: number; to: number; tenant?: string; path?: string; status?: string; limit: number },
+): Promise<{ records: AccessLogRecord[]; truncated: boolean }> {
+  const records: AccessLogRecord[] = [];
+  const firstHour = options.from - (options.from % 3_600_000);
+
+  for (let hour = options.to - (options.to % 3_600_000); hour >= firstHour; hour -= 3_600_000) {
+    let cursor: string | undefined;
+
+    do {
+      const list = await bucket.list({ prefix: hourPrefix(hour), cursor });
+
+      // Newest files first
+      for (const file of list.objects.sort((a, b) => b.key.localeCompare(a.key))) {
+        const object = await bucket.get(file.key);
+        if (!object) continue;
+
+        const text = await new Response(object.body.pipeThrough(new DecompressionStream('gzip'))).text();
+        const matched = text.split('\n').filter(Boolean)
+          .map(line => JSON.parse(line) as AccessLogRecord)
+          .filter(record => {
+            const time = Date.parse(record.ts);
+            return time >= options.from && time <= options.to
+              && (options.tenant === undefined || (record.tenant ?? '') === options.tenant)
+              && (!options.path || record.path.startsWith(options.path))
+              && (!options.status || statusMatches(options.status, record.status));
+          })
+          .reverse();
+
+        records.push(...matched);
+        if (records.length >= options.limit) {
+          return { records: records.slice(0, options.limit), truncated: true };
+        }
+      }
+
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+  }
+
+  return { records, truncated: false };
+}
+
+/**
+ * Log query routes. Mount behind requireScope('admin').
+ */
+export function createLogRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Recent access logs
+  app.get('/admin/logs', async (c) => {
+    // Last hour by default
+    const to = parseTime(c.req.query('to'), Date.now());
+    const from = parseTime(c.req.query('from'), to - 3600 * 1000);
+
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return c.json({ error: 'from and to must be dates or epoch milliseconds, from before to' }, 400);
+    }
+    if (to - from > MAX_QUERY_RANGE) {
+      return c.json({ error: 'Time range may span at most 24 hours' }, 400);
+    }
+
+    const status = c.req.query('status');
+    if (status && !/^([1-5]xx|\d{3})$/i.test(status)) {
+      return c.json({ error: 'status must be a code (404) or class (5xx)' }, 400);
+    }
+
+    // Tenants only see their own requests; the shared host may pick a tenant
+    const { records, truncated } = await queryLogs(logBucket(c.env), {
+      from,
+      to,
+      tenant: c.get('tenant')?.id ?? c.req.query('tenant'),
+      path: c.req.query('path'),
+      status,
+      limit: Math.min(parseInt(c.req.query('limit') || '100') || 100, MAX_QUERY_LIMIT),
+    });
+
+    return c.json({
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      records,
+      truncated,
+    });
+  });
+
+  return app;
+}
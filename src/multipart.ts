@@ -0,0 +1,400 @@
+/**
+ * RoadCDN Multipart Uploads
+ *
+ * Resumable uploads for large assets on top of R2 multipart uploads:
+ * - Initiate, upload numbered parts, list parts, complete, abort
+ * - Parts are streamed straight to R2, never buffered
+ * - Re-uploading a part number replaces it, so dropped parts can be retried
+ */
+
+import { Hono } from 'hono';
+import { AppEnv } from './env';
+import { invalidateAsset } from './cache';
+import { canAccessPath, hasScope, ApiKeyRecord } from './auth';
+import { TagIndex, parseCacheTags, objectTags, tagMetadata } from './purge';
+import { isReservedPath } from './reserved';
+import { VersionStore } from './versions';
+import { QuotaManager, quotaExceeded, quotaWarningHeader } from './quotas';
+import { FingerprintStore, isFingerprinted } from './fingerprint';
+import { forgetSiteFiles } from './hosting';
+import { Coalescer } from './coalesce';
+
+interface UploadSession {
+  id: string;
+  path: string;
+  r2UploadId: string;
+  contentType: string;
+  keyId?: string; // API key that started the upload
+  createdAt: number;
+}
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+  uploadedAt: number;
+}
+
+// Unfinished uploads are forgotten after this long
+const SESSION_TTL = 86400 * 7; // 7 days
+
+// R2 part numbers run from 1 to 10000
+const MAX_PART_NUMBER = 10000;
+
+/**
+ * Tracks multipart upload sessions and their parts in KV
+ */
+export class MultipartUploadManager {
+  private kv: KVNamespace;
+  private bucket: R2Bucket;
+
+  constructor(kv: KVNamespace, bucket: R2Bucket) {
+    this.kv = kv;
+    this.bucket = bucket;
+  }
+
+  /**
+   * Start an upload for a path
+   */
+  async initiate(
+    path: string,
+    contentType: string,
+    options: {
+      cacheControl?: string;
+      keyId?: string; // API key starting the upload
+      isPrivate?: boolean;
+      tags?: string[];
+    } = {},
+  ): Promise<UploadSession> {
+    const upload = await this.bucket.createMultipartUpload(path, {
+      httpMetadata: { contentType, cacheControl: options.cacheControl },
+      customMetadata: {
+        uploadedAt: String(Date.now()),
+        ...(options.isPrivate ? { private: 'true' } : {}),
+        ...tagMetadata(options.tags ?? []),
+      },
+    });
+
+    const session: UploadSession = {
+      id: crypto.randomUUID(),
+      path,
+      r2UploadId: upload.uploadId,
+      contentType,
+      keyId: options.keyId,
+      createdAt: Date.now(),
+    };
+
+    await this.kv.put(`upload:${session.id}`, JSON.stringify(session), {
+      expirationTtl: SESSION_TTL,
+    });
+
+    return session;
+  }
+
+  /**
+   * Get an upload session
+   */
+  async getSession(id: string): Promise<UploadSession | null> {
+    return await this.kv.get(`upload:${id}`, 'json') as UploadSession | null;
+  }
+
+  /**
+   * Stream one part to R2
+   */
+  async uploadPart(
+    session: UploadSession,
+    partNumber: number,
+    body: ReadableStream,
+    size: number,
+  ): Promise<UploadedPart> {
+    const upload = this.bucket.resumeMultipartUpload(session.path, session.r2UploadId);
+    const uploaded = await upload.uploadPart(partNumber, body);
+
+    const part: UploadedPart = {
+      partNumber,
+      etag: uploaded.etag,
+      size,
+      uploadedAt: Date.now(),
+    };
+
+    await this.kv.put(`upload:${session.id}:part:${partNumber}`, JSON.stringify(part), {
+      expirationTtl: SESSION_TTL,
+    });
+
+    return part;
+  }
+
+  /**
+   * List recorded parts in part number order
+   */
+  async listParts(session: UploadSession): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: `upload:${session.id}:part:`, cursor });
+      for (const key of list.keys) {
+        const part = await this.kv.get(key.name, 'json') as UploadedPart | null;
+        if (part) parts.push(part);
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  /**
+   * Assemble the object from its parts
+   */
+  async complete(session: UploadSession, parts: R2UploadedPart[]): Promise<R2Object> {
+    const upload = this.bucket.resumeMultipartUpload(session.path, session.r2UploadId);
+    const object = await upload.complete(parts);
+
+    await this.forget(session);
+    return object;
+  }
+
+  /**
+   * Abandon an upload and its parts
+   */
+  async abort(session: UploadSession): Promise<void> {
+    const upload = this.bucket.resumeMultipartUpload(session.path, session.r2UploadId);
+    await upload.abort();
+
+    await this.forget(session);
+  }
+
+  private async forget(session: UploadSession): Promise<void> {
+    const parts = await this.listParts(session);
+    await Promise.all([
+      this.kv.delete(`upload:${session.id}`),
+      ...parts.map(part => this.kv.delete(`upload:${session.id}:part:${part.partNumber}`)),
+    ]);
+  }
+}
+
+/**
+ * Uploads can only be continued by the key that started them, or an admin key
+ */
+function ownsSession(key: ApiKeyRecord | undefined, session: UploadSession): boolean {
+  if (!session.keyId || !key) return true;
+  return key.id === session.keyId || hasScope(key, 'admin');
+}
+
+/**
+ * Check a completion's part list, returning the problems found
+ */
+function validateParts(parts: unknown): string[] {
+  if (!Array.isArray(parts)) return ['parts must be a list'];
+
+  const errors: string[] = [];
+  parts.forEach((part, i) => {
+    const { partNumber, etag } = (part ?? {}) as Partial<R2UploadedPart>;
+    if (!Number.isInteger(partNumber) || partNumber! < 1 || partNumber! > MAX_PART_NUMBER) {
+      errors.push(`parts[${i}].partNumber must be between 1 and ${MAX_PART_NUMBER}`);
+    }
+    if (typeof etag !== 'string' || !etag) {
+      errors.push(`parts[${i}].etag required`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Multipart upload API routes. Mount behind requireScope('write').
+ */
+export function createMultipartRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Initiate an upload
+  app.post('/uploads', async (c) => {
+    const body = await c.req.json<{
+      path: string;
+      contentType?: string;
+      cacheControl?: string;
+      private?: boolean;
+      tags?: string[];
+      size?: number; // expected total, checked against storage quotas
+    }>();
+
+    if (!body.path) {
+      return c.json({ error: 'path required' }, 400);
+    }
+
+    if (body.size !== undefined && (!Number.isInteger(body.size) || body.size < 0)) {
+      return c.json({ error: 'size must be a whole number of bytes' }, 400);
+    }
+
+    if (isReservedPath(body.path)) {
+      return c.json({ error: 'Reserved path', path: body.path }, 403);
+    }
+
+    const key = c.get('apiKey');
+    if (key && !canAccessPath(key, body.path)) {
+      return c.json({ error: 'API key not allowed for path', path: body.path }, 403);
+    }
+
+    if (body.tags !== undefined && (!Array.isArray(body.tags) || !body.tags.every(tag => typeof tag === 'string'))) {
+      return c.json({ error: 'tags must be a list of strings' }, 400);
+    }
+
+    const tags = parseCacheTags(body.tags?.join(','));
+    if (typeof tags === 'string') {
+      return c.json({ error: tags }, 400);
+    }
+
+    const current = await c.env.ASSETS.head(body.path);
+    if (current && isFingerprinted(current)) {
+      return c.json({ error: 'Fingerprinted assets are immutable', path: body.path }, 409);
+    }
+
+    // Refused up front when the declared size already can't fit; checked again on completion
+    const quota = await new QuotaManager(c.env, c.get('tenant')).checkStorage(body.path, body.size ?? 0);
+    if (quota.exceeded.length > 0) {
+      return quotaExceeded(c, quota.exceeded[0]);
+    }
+
+    const manager = new MultipartUploadManager(c.env.CACHE, c.env.ASSETS);
+    const session = await manager.initiate(body.path, body.contentType || 'application/octet-stream', {
+      cacheControl: body.cacheControl,
+      keyId: key?.id,
+      isPrivate: body.private === true,
+      tags,
+    });
+
+    return c.json({
+      uploadId: session.id,
+      path: session.path,
+      partUrl: `/uploads/${session.id}/parts/{partNumber}`,
+    }, 201);
+  });
+
+  // Upload (or retry) a numbered part
+  app.put('/uploads/:id/parts/:partNumber', async (c) => {
+    const partNumber = parseInt(c.req.param('partNumber'));
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+      return c.json({ error: `partNumber must be between 1 and ${MAX_PART_NUMBER}` }, 400);
+    }
+
+    const size = parseInt(c.req.header('Content-Length') || '');
+    if (!c.req.raw.body || isNaN(size)) {
+      return c.json({ error: 'Part body with Content-Length required' }, 411);
+    }
+
+    const manager = new MultipartUploadManager(c.env.CACHE, c.env.ASSETS);
+    const session = await manager.getSession(c.req.param('id'));
+    if (!session || !ownsSession(c.get('apiKey'), session)) {
+      return c.json({ error: 'Upload not found' }, 404);
+    }
+
+    const part = await manager.uploadPart(session, partNumber, c.req.raw.body, size);
+    return c.json(part);
+  });
+
+  // Upload status and parts received so far
+  app.get('/uploads/:id', async (c) => {
+    const manager = new MultipartUploadManager(c.env.CACHE, c.env.ASSETS);
+    const session = await manager.getSession(c.req.param('id'));
+    if (!session || !ownsSession(c.get('apiKey'), session)) {
+      return c.json({ error: 'Upload not found' }, 404);
+    }
+
+    const parts = await manager.listParts(session);
+
+    return c.json({
+      uploadId: session.id,
+      path: session.path,
+      contentType: session.contentType,
+      createdAt: session.createdAt,
+      parts,
+      totalSize: parts.reduce((sum, p) => sum + p.size, 0),
+    });
+  });
+
+  // Complete an upload, with the recorded parts unless a list is given
+  app.post('/uploads/:id/complete', async (c) => {
+    const manager = new MultipartUploadManager(c.env.CACHE, c.env.ASSETS);
+    const session = await manager.getSession(c.req.param('id'));
+    if (!session || !ownsSession(c.get('apiKey'), session)) {
+      return c.json({ error: 'Upload not found' }, 404);
+    }
+
+    const body: { parts?: R2UploadedPart[] } = c.req.header('Content-Type')?.includes('json')
+      ? await c.req.json()
+      : {};
+    if (body.parts !== undefined) {
+      const errors = validateParts(body.parts);
+      if (errors.length > 0) {
+        return c.json({ error: 'Invalid parts', details: errors }, 400);
+      }
+    }
+
+    const recorded = await manager.listParts(session);
+    const parts = body.parts ?? recorded.map(({ partNumber, etag }) => ({ partNumber, etag }));
+
+    if (parts.length === 0) {
+      return c.json({ error: 'No parts uploaded' }, 400);
+    }
+
+    // Storage quotas are checked against the parts being assembled; the upload
+    // stays open so it can be aborted
+    const size = recorded
+      .filter(part => parts.some(p => p.partNumber === part.partNumber))
+      .reduce((sum, part) => sum + part.size, 0);
+    const quota = await new QuotaManager(c.env, c.get('tenant')).checkStorage(session.path, size);
+    if (quota.exceeded.length > 0) {
+      return quotaExceeded(c, quota.exceeded[0]);
+    }
+
+    // Keep the version being replaced. Fingerprinted copies may have appeared since the upload began.
+    const previous = await c.env.ASSETS.head(session.path);
+    if (previous && isFingerprinted(previous)) {
+      return c.json({ error: 'Fingerprinted assets are immutable', path: session.path }, 409);
+    }
+    await new VersionStore(c.env.ASSETS, c.env.CACHE).archive(previous);
+
+    let object: R2Object;
+    try {
+      object = await manager.complete(session, parts);
+    } catch (e) {
+      return c.json({ error: 'Failed to complete upload', details: (e as Error).message }, 400);
+    }
+
+    await new TagIndex(c.env.CACHE).update(session.path, objectTags(object), objectTags(previous));
+
+    // Invalidate cache
+    await invalidateAsset(c.env.CACHE, session.path);
+    forgetSiteFiles(c.env.ASSETS, session.path);
+
+    // The replaced asset's fingerprint leaves the manifest
+    if (previous?.customMetadata?.fingerprint) {
+      const fingerprints = new FingerprintStore(c.env.ASSETS, c.env.CACHE);
+      const locks = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+      c.executionCtx.waitUntil(fingerprints.refreshManifest(session.path, locks));
+    }
+
+    const warning = quotaWarningHeader(quota.warnings);
+    if (warning) c.header('X-Quota-Warning', warning);
+
+    return c.json({
+      path: session.path,
+      size: object.size,
+      etag: object.etag,
+      url: `/cdn/${session.path}`,
+    });
+  });
+
+  // Abort an upload
+  app.delete('/uploads/:id', async (c) => {
+    const manager = new MultipartUploadManager(c.env.CACHE, c.env.ASSETS);
+    const session = await manager.getSession(c.req.param('id'));
+    if (!session || !ownsSession(c.get('apiKey'), session)) {
+      return c.json({ error: 'Upload not found' }, 404);
+    }
+
+    await manager.abort(session);
+    return c.json({ aborted: true, uploadId: session.id });
+  });
+
+  return app;
+}
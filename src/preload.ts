@@ -0,0 +1,726 @@
+/**
+ * RoadCDN Preloading
+ *
+ * Copies origin URLs into R2 as background jobs:
+ * - Input is a list of URLs, a sitemap (sitemap indexes are followed) or an asset manifest
+ * - URLs map onto asset paths through a target prefix and a path template
+ * - Fetched with bounded concurrency under the proxy allowlist and limits;
+ *   transient failures are retried with backoff
+ * - Origin content type, caching headers, validators and cache tags are kept
+ * - Jobs are checkpointed so they can resume, and report a result per URL
+ */
+
+import { Env } from './env';
+import { Tenant } from './tenants';
+import { ProxyGuard, ProxyError, ProxyFailure, ProxiedResponse } from './proxy';
+import { QuotaManager, QuotaStatus } from './quotas';
+import { VersionStore } from './versions';
+import { TagIndex, PurgeBudget, markJobsPending, parseCacheTags, objectTags, tagMetadata } from './purge';
+import { invalidateAsset } from './cache';
+import { takeJobLease, releaseJobLease } from './coalesce';
+import { forgetSiteFiles } from './hosting';
+import { contentTypeFor } from './compression';
+import { isFingerprinted } from './fingerprint';
+import { isReservedPath } from './reserved';
+
+/**
+ * What to preload and where to put it, as sent to POST /preload
+ */
+export interface PreloadSpec {
+  urls?: string[];
+  sitemap?: string; // URL of a sitemap.xml or sitemap index
+  manifest?: string; // URL of a JSON asset manifest
+  prefix?: string; // prepended to every mapped path
+  template?: string; // e.g. "{host}/{path}"; default "{path}"
+  concurrency?: number;
+  retries?: number; // per URL, for timeouts, network errors and 408/429/5xx
+}
+
+export type PreloadJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PreloadResult {
+  url: string;
+  path?: string;
+  status: 'ok' | 'failed';
+  size?: number;
+  attempts: number;
+  originStatus?: number;
+  error?: string;
+  reason?: ProxyFailure;
+  quota?: QuotaStatus;
+}
+
+/**
+ * A sitemap or manifest read for URLs
+ */
+export interface PreloadSource {
+  url: string;
+  kind: 'sitemap' | 'manifest';
+  status: 'pending' | 'ok' | 'failed';
+  urls?: number; // found in it
+  error?: string;
+  reason?: ProxyFailure;
+}
+
+export interface PreloadJob {
+  id: string;
+  spec: PreloadSpec;
+  keyId?: string; // API key that started the preload
+  keyPrefixes?: string[]; // paths outside these are refused
+  status: PreloadJobStatus;
+  sources: PreloadSource[];
+  urls: string[];
+  results: (PreloadResult | null)[]; // by URL, null until the URL is done
+  stored: number;
+  failed: number;
+  bytes: number;
+  warnings: QuotaStatus[];
+  errors: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+}
+
+// Placeholders a path template may use
+const PLACEHOLDERS = ['host', 'path', 'dir', 'file', 'name', 'ext'];
+
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 8;
+export const DEFAULT_RETRIES = 2;
+export const MAX_RETRIES = 5;
+
+// URLs per job, whatever the sitemaps hold
+export const MAX_JOB_URLS = 10_000;
+
+// Sitemaps read per job, counting those listed in sitemap indexes
+const MAX_SITEMAPS = 50;
+
+// First retry delay, doubled for each further attempt
+const RETRY_DELAY = 1000;
+
+// Budget operations a URL costs: the fetch and its address lookups, the quota
+// check, reading, archiving and writing the asset, and cache invalidation
+const URL_OPERATIONS = 10;
+const SOURCE_OPERATIONS = 4;
+
+// Fetches already started when the budget runs out are finished; the lease
+// outlasts one under the default limits
+const LEASE_GRACE = 30_000;
+
+// Finished jobs stay queryable this long
+const JOB_HISTORY_TTL = 86400 * 30; // 30 days
+
+// Consecutive errors before a job is given up on
+const MAX_JOB_ERRORS = 5;
+
+// KV allows one write per second to the same key
+const CHECKPOINT_INTERVAL = 1000;
+
+// R2 keys are limited to 1024 bytes
+const MAX_PATH_BYTES = 1024;
+
+/**
+ * Literal part of a template before its first placeholder
+ */
+export function templatePrefix(template = '{path}'): string {
+  const placeholder = template.indexOf('{');
+  return placeholder === -1 ? template : template.slice(0, placeholder);
+}
+
+/**
+ * Asset path a URL is stored at, or null when it doesn't map onto a valid path.
+ * Directory URLs (`/docs/`) are stored as their index.html.
+ */
+export function preloadPath(url: string, spec: Pick<PreloadSpec, 'prefix' | 'template'>): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(parsed.pathname);
+  } catch {
+    pathname = parsed.pathname;
+  }
+  pathname = pathname.replace(/^\/+/, '');
+  if (pathname === '' || pathname.endsWith('/')) pathname += 'index.html';
+
+  const slash = pathname.lastIndexOf('/');
+  const file = pathname.slice(slash + 1);
+  const dot = file.lastIndexOf('.');
+  const values: Record<string, string> = {
+    host: parsed.host,
+    path: pathname,
+    dir: pathname.slice(0, slash + 1),
+    file,
+    name: dot > 0 ? file.slice(0, dot) : file,
+    ext: dot > 0 ? file.slice(dot + 1) : '',
+  };
+
+  const path = (spec.prefix ?? '') + (spec.template ?? '{path}').replace(/\{(\w+)\}/g, (_, name) => values[name] ?? '');
+  const segments = path.split('/');
+
+  if (path === '' || path.startsWith('/') || path.endsWith('/')
+    || segments.some(segment => segment === '.' || segment === '..')
+    || new TextEncoder().encode(path).byteLength > MAX_PATH_BYTES) {
+    return null;
+  }
+  return path;
+}
+
+/**
+ * Problems with a preload request, empty when it is valid
+ */
+export function validatePreload(spec: PreloadSpec): string[] {
+  const errors: string[] = [];
+
+  if (!spec.urls?.length && !spec.sitemap && !spec.manifest) {
+    errors.push('Specify urls, a sitemap or a manifest');
+  }
+  if (spec.urls !== undefined
+    && (!Array.isArray(spec.urls) || !spec.urls.every(url => typeof url === 'string'))) {
+    errors.push('urls must be a list of URLs');
+  } else if ((spec.urls?.length ?? 0) > MAX_JOB_URLS) {
+    errors.push(`At most ${MAX_JOB_URLS} URLs per preload`);
+  }
+  for (const field of ['sitemap', 'manifest'] as const) {
+    if (spec[field] !== undefined && typeof spec[field] !== 'string') {
+      errors.push(`${field} must be a URL`);
+    }
+  }
+
+  if (spec.prefix !== undefined && (typeof spec.prefix !== 'string' || spec.prefix.startsWith('/'))) {
+    errors.push('prefix must be a path without a leading slash');
+  }
+  if (spec.template !== undefined) {
+    const unknown = typeof spec.template === 'string'
+      ? [...spec.template.matchAll(/\{(\w*)\}/g)].map(m => m[1]).filter(name => !PLACEHOLDERS.includes(name))
+      : [];
+    if (typeof spec.template !== 'string' || spec.template === '') {
+      errors.push('template must be a non-empty string');
+    } else if (unknown.length > 0) {
+      errors.push(`template placeholders must be one of ${PLACEHOLDERS.map(p => `{${p}}`).join(', ')}`);
+    }
+  }
+
+  if (spec.concurrency !== undefined
+    && (!Number.isInteger(spec.concurrency) || spec.concurrency < 1 || spec.concurrency > MAX_CONCURRENCY)) {
+    errors.push(`concurrency must be between 1 and ${MAX_CONCURRENCY}`);
+  }
+  if (spec.retries !== undefined
+    && (!Number.isInteger(spec.retries) || spec.retries < 0 || spec.retries > MAX_RETRIES)) {
+    errors.push(`retries must be between 0 and ${MAX_RETRIES}`);
+  }
+
+  return errors;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Page URLs of a sitemap, or the sitemaps a sitemap index lists
+ */
+export function parseSitemap(xml: string, base: string): { urls: string[]; sitemaps: string[] } {
+  const locs = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)].flatMap(([, loc]) => {
+    try {
+      return [new URL(decodeXml(loc), base).href];
+    } catch {
+      return [];
+    }
+  });
+
+  return /<sitemapindex[\s>]/i.test(xml) ? { urls: [], sitemaps: locs } : { urls: locs, sitemaps: [] };
+}
+
+/**
+ * URLs listed in an asset manifest: a RoadCDN manifest (`{ prefix, assets }`) or
+ * a flat map of names to URLs. Relative URLs resolve against the manifest.
+ */
+export function parseManifest(manifest: unknown, base: string): string[] {
+  if (typeof manifest !== 'object' || manifest === null) return [];
+
+  const record = manifest as Record<string, unknown>;
+  const entries = typeof record.assets === 'object' && record.assets !== null
+    ? record.assets as Record<string, unknown>
+    : record;
+
+  return Object.values(entries).flatMap(value => {
+    if (typeof value !== 'string') return [];
+    try {
+      return [new URL(value, base).href];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Origin statuses and proxy failures worth another attempt
+ */
+function retryable(failure: { originStatus?: number; reason?: ProxyFailure }): boolean {
+  if (failure.reason) return failure.reason === 'timeout' || failure.reason === 'fetch_failed';
+  const status = failure.originStatus ?? 500;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+type Fetched =
+  | { response: ProxiedResponse; failure?: undefined; attempts: number }
+  | { response?: undefined; failure: { error: string; reason?: ProxyFailure; originStatus?: number }; attempts: number };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Preload jobs: created per POST /preload, run in checkpointed slices until done
+ */
+export class PreloadJobManager {
+  private env: Env;
+  private tenant?: Tenant;
+  private guard: ProxyGuard;
+
+  constructor(env: Env, tenant?: Tenant) {
+    this.env = env;
+    this.tenant = tenant;
+    this.guard = new ProxyGuard(env.CACHE);
+  }
+
+  /**
+   * Record a new job and queue it
+   */
+  async create(spec: PreloadSpec, keyId?: string, keyPrefixes?: string[]): Promise<PreloadJob> {
+    const now = Date.now();
+    const job: PreloadJob = {
+      // Time-ordered so the history lists oldest first
+      id: `${now.toString(36).padStart(9, '0')}-${crypto.randomUUID().slice(0, 8)}`,
+      spec,
+      keyId,
+      keyPrefixes: keyPrefixes?.length ? keyPrefixes : undefined,
+      status: 'queued',
+      sources: [
+        ...spec.sitemap ? [{ url: spec.sitemap, kind: 'sitemap' as const, status: 'pending' as const }] : [],
+        ...spec.manifest ? [{ url: spec.manifest, kind: 'manifest' as const, status: 'pending' as const }] : [],
+      ],
+      urls: [],
+      results: [],
+      stored: 0,
+      failed: 0,
+      bytes: 0,
+      warnings: [],
+      errors: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.addUrls(job, spec.urls ?? []);
+
+    await Promise.all([this.save(job), this.env.CACHE.put(`preload-queue:${job.id}`, ''), markJobsPending(this.env.CACHE)]);
+    return job;
+  }
+
+  async get(id: string): Promise<PreloadJob | null> {
+    return await this.env.CACHE.get(`preload-job:${id}`, 'json') as PreloadJob | null;
+  }
+
+  /**
+   * Job history, oldest first, from listing metadata only: every job, or the
+   * jobs one API key started
+   */
+  async list(options: { cursor?: string; limit?: number; keyId?: string } = {}) {
+    const prefix = options.keyId !== undefined ? ownerPrefix(options.keyId) : 'preload-job:';
+    const list = await this.env.CACHE.list<PreloadJobSummary>({
+      prefix,
+      cursor: options.cursor,
+      limit: options.limit,
+    });
+
+    return {
+      jobs: list.keys.map(key => ({ id: key.name.slice(prefix.length), ...key.metadata })),
+      cursor: list.list_complete ? null : list.cursor,
+    };
+  }
+
+  /**
+   * Run a job until it finishes or the budget runs out: sources are read
+   * first, then URLs are preloaded `concurrency` at a time
+   */
+  async run(id: string, budget: PurgeBudget): Promise<PreloadJob | null> {
+    const job = await this.get(id);
+    if (!job || job.status === 'completed' || job.status === 'failed') return job;
+
+    // Held by the lock rather than in KV, where two locations can both see the job unleased
+    const lockName = `${this.tenant?.id ?? ''}:preload-job:${id}`;
+    const lease = await takeJobLease(this.env.LOCKS, lockName, budget.deadline + LEASE_GRACE - Date.now());
+    if (!lease) return job;
+
+    // This location hasn't seen the last run's progress yet; a later run picks the job up
+    if (job.updatedAt < lease.savedAt) {
+      await releaseJobLease(this.env.LOCKS, lockName, lease.token, lease.savedAt);
+      return job;
+    }
+
+    let status: PreloadJobStatus | null = null;
+    try {
+      status = await this.work(job, budget);
+    } finally {
+      // The next run learns when this one last saved
+      await releaseJobLease(this.env.LOCKS, lockName, lease.token, status ? job.updatedAt : lease.savedAt);
+    }
+
+    if (status === 'completed' || status === 'failed') {
+      await this.env.CACHE.delete(`preload-queue:${job.id}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * One leased run of a job. Returns its status once saved.
+   */
+  private async work(job: PreloadJob, budget: PurgeBudget): Promise<PreloadJobStatus> {
+    job.status = 'running';
+    job.updatedAt = Date.now();
+    await this.save(job);
+
+    let lastSaved = Date.now();
+    let saving: Promise<void> | null = null;
+
+    // Workers finish URLs out of order; a snapshot is saved at most once per interval
+    const checkpoint = () => {
+      if (saving || Date.now() - lastSaved < CHECKPOINT_INTERVAL) return;
+      job.updatedAt = Date.now();
+      budget.operations -= 1;
+      saving = this.save(job).finally(() => {
+        saving = null;
+        lastSaved = Date.now();
+      });
+    };
+
+    try {
+      for (const source of job.sources) {
+        if (Date.now() >= budget.deadline || budget.operations <= 0) break;
+        if (source.status !== 'pending') continue;
+
+        budget.operations -= SOURCE_OPERATIONS;
+        await this.readSource(job, source, budget.deadline);
+        checkpoint();
+      }
+
+      const pending = job.results.flatMap((result, index) => result ? [] : [index]);
+      const worker = async () => {
+        while (pending.length > 0 && Date.now() < budget.deadline && budget.operations > 0) {
+          const index = pending.shift()!;
+          budget.operations -= URL_OPERATIONS;
+
+          const result = await this.preload(job, index, budget.deadline);
+          if (result) this.record(job, index, result);
+          checkpoint();
+        }
+      };
+      await Promise.all(Array.from({ length: job.spec.concurrency ?? DEFAULT_CONCURRENCY }, worker));
+      await saving;
+
+      if (job.sources.every(source => source.status !== 'pending') && job.results.every(result => result !== null)) {
+        job.status = 'completed';
+        job.finishedAt = Date.now();
+      }
+
+      job.errors = 0;
+    } catch (e) {
+      await saving;
+      job.errors += 1;
+      job.lastError = (e as Error).message;
+      if (job.errors >= MAX_JOB_ERRORS) {
+        job.status = 'failed';
+        job.finishedAt = Date.now();
+      }
+    }
+
+    job.updatedAt = Date.now();
+    await this.save(job);
+    return job.status;
+  }
+
+  /**
+   * Continue every unfinished job, oldest first, within one budget. Returns
+   * whether any are left unfinished.
+   */
+  async resumePending(budget: PurgeBudget): Promise<boolean> {
+    let remaining = false;
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.env.CACHE.list({ prefix: 'preload-queue:', cursor });
+      budget.operations -= 1;
+
+      for (const key of list.keys) {
+        if (Date.now() >= budget.deadline || budget.operations <= 0) return true;
+        const job = await this.run(key.name.slice('preload-queue:'.length), budget);
+        if (job && job.status !== 'completed' && job.status !== 'failed') remaining = true;
+      }
+
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return remaining;
+  }
+
+  /**
+   * Queue URLs, once each up to the job's limit. URLs that can't be stored
+   * (invalid or reserved paths, paths outside the key's prefixes, paths an
+   * earlier URL already maps to) fail straight away.
+   */
+  private addUrls(job: PreloadJob, urls: string[]): void {
+    const known = new Set(job.urls);
+    const taken = new Map<string, string>();
+    for (const url of job.urls) {
+      const path = preloadPath(url, job.spec);
+      if (path !== null && !taken.has(path)) taken.set(path, url);
+    }
+
+    for (const raw of urls) {
+      if (job.urls.length >= MAX_JOB_URLS) break;
+
+      let url = raw;
+      let malformed = false;
+      try {
+        url = new URL(raw).href;
+      } catch {
+        malformed = true;
+      }
+      if (known.has(url)) continue;
+      known.add(url);
+
+      const path = preloadPath(url, job.spec);
+      const fail = (error: string, reason?: ProxyFailure): PreloadResult =>
+        ({ url, path: path ?? undefined, status: 'failed', attempts: 0, error, reason });
+
+      let result: PreloadResult | null = null;
+      if (malformed) {
+        result = fail('URL is malformed', 'invalid_url');
+      } else if (path === null) {
+        result = fail('URL does not map onto a valid asset path');
+      } else if (isReservedPath(path)) {
+        result = fail('Reserved path');
+      } else if (job.keyPrefixes && !job.keyPrefixes.some(prefix => path.startsWith(prefix))) {
+        result = fail('API key not allowed for path');
+      } else if (taken.has(path)) {
+        result = fail(`Path already taken by ${taken.get(path)}`);
+      } else {
+        taken.set(path, url);
+      }
+
+      job.urls.push(url);
+      job.results.push(null);
+      if (result) this.record(job, job.urls.length - 1, result);
+    }
+  }
+
+  private record(job: PreloadJob, index: number, result: PreloadResult): void {
+    job.results[index] = result;
+    if (result.status === 'ok') {
+      job.stored += 1;
+      job.bytes += result.size ?? 0;
+    } else {
+      job.failed += 1;
+    }
+  }
+
+  /**
+   * Fetch an origin URL under the proxy guard, retrying transient failures
+   * while the deadline allows. Returns null when out of time, so the next run
+   * tries again.
+   */
+  private async fetchWithRetries(job: PreloadJob, url: string, deadline: number): Promise<Fetched | null> {
+    const retries = job.spec.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 1; ; attempt++) {
+      let failure: NonNullable<Fetched['failure']>;
+      try {
+        const response = await this.guard.fetch(url);
+        if (response.status >= 200 && response.status < 300) return { response, attempts: attempt };
+        failure = { error: `Origin responded with ${response.status}`, originStatus: response.status };
+      } catch (e) {
+        failure = { error: (e as Error).message, reason: e instanceof ProxyError ? e.reason : undefined };
+      }
+
+      if (attempt > retries || !retryable(failure)) return { failure, attempts: attempt };
+
+      const delay = RETRY_DELAY * 2 ** (attempt - 1);
+      if (Date.now() + delay >= deadline) return null;
+      await sleep(delay);
+    }
+  }
+
+  private async readSource(job: PreloadJob, source: PreloadSource, deadline: number): Promise<void> {
+    const fetched = await this.fetchWithRetries(job, source.url, deadline);
+    if (!fetched) return;
+
+    if (!fetched.response) {
+      Object.assign(source, { status: 'failed', error: fetched.failure.error, reason: fetched.failure.reason });
+      return;
+    }
+
+    const text = new TextDecoder().decode(fetched.response.body);
+    let urls: string[];
+
+    if (source.kind === 'sitemap') {
+      const found = parseSitemap(text, fetched.response.url);
+      urls = found.urls;
+
+      // Sitemaps listed by an index are read in turn, up to the limit
+      const known = new Set(job.sources.map(s => s.url));
+      for (const sitemap of found.sitemaps) {
+        if (job.sources.filter(s => s.kind === 'sitemap').length >= MAX_SITEMAPS) break;
+        if (known.has(sitemap)) continue;
+        known.add(sitemap);
+        job.sources.push({ url: sitemap, kind: 'sitemap', status: 'pending' });
+      }
+    } else {
+      try {
+        urls = parseManifest(JSON.parse(text), fetched.response.url);
+      } catch {
+        Object.assign(source, { status: 'failed', error: 'Manifest is not valid JSON' });
+        return;
+      }
+    }
+
+    this.addUrls(job, urls);
+    Object.assign(source, { status: 'ok', urls: urls.length });
+  }
+
+  /**
+   * Fetch one URL and store it, keeping the version being replaced
+   */
+  private async preload(job: PreloadJob, index: number, deadline: number): Promise<PreloadResult | null> {
+    const url = job.urls[index];
+    const path = preloadPath(url, job.spec)!;
+
+    const fetched = await this.fetchWithRetries(job, url, deadline);
+    if (!fetched) return null;
+    const { attempts } = fetched;
+
+    if (!fetched.response) {
+      return { url, path, status: 'failed', attempts, ...fetched.failure };
+    }
+
+    const { body, headers } = fetched.response;
+    const size = body.byteLength;
+
+    try {
+      const current = await this.env.ASSETS.head(path);
+      if (current && isFingerprinted(current)) {
+        return { url, path, status: 'failed', size, attempts, error: 'Fingerprinted assets are immutable' };
+      }
+
+      const quota = await new QuotaManager(this.env, this.tenant).checkStorage(path, size);
+      if (quota.exceeded.length > 0) {
+        return { url, path, status: 'failed', size, attempts, error: 'Quota exceeded', quota: quota.exceeded[0] };
+      }
+      for (const warning of quota.warnings) {
+        if (!job.warnings.some(w => w.scope === warning.scope && w.prefix === warning.prefix && w.metric === warning.metric)) {
+          job.warnings.push(warning);
+        }
+      }
+
+      // Cache tags the origin sets are kept; invalid ones are dropped
+      const parsed = parseCacheTags(headers.get('Cache-Tag'));
+      const tags = typeof parsed === 'string' ? [] : parsed;
+
+      await new VersionStore(this.env.ASSETS, this.env.CACHE).archive(current);
+      await this.env.ASSETS.put(path, body, {
+        httpMetadata: {
+          contentType: headers.get('Content-Type') || contentTypeFor(path) || 'application/octet-stream',
+          cacheControl: headers.get('Cache-Control') ?? undefined,
+          contentLanguage: headers.get('Content-Language') ?? undefined,
+          contentDisposition: headers.get('Content-Disposition') ?? undefined,
+        },
+        customMetadata: {
+          uploadedAt: String(Date.now()),
+          source: url,
+          preloadJob: job.id,
+          ...headers.get('ETag') ? { sourceEtag: headers.get('ETag')! } : {},
+          ...headers.get('Last-Modified') ? { sourceLastModified: headers.get('Last-Modified')! } : {},
+          ...tagMetadata(tags),
+        },
+      });
+
+      await new TagIndex(this.env.CACHE).update(path, tags, objectTags(current));
+      await invalidateAsset(this.env.CACHE, path);
+      forgetSiteFiles(this.env.ASSETS, path);
+
+      return { url, path, status: 'ok', size, attempts };
+    } catch (e) {
+      return { url, path, status: 'failed', size, attempts, error: (e as Error).message };
+    }
+  }
+
+  private async save(job: PreloadJob): Promise<void> {
+    const finished = job.status === 'completed' || job.status === 'failed';
+    const metadata: PreloadJobSummary = {
+      status: job.status,
+      total: job.urls.length,
+      stored: job.stored,
+      failed: job.failed,
+      keyId: job.keyId,
+      createdAt: job.createdAt,
+      finishedAt: job.finishedAt,
+    };
+
+    const expirationTtl = finished ? JOB_HISTORY_TTL : undefined;
+
+    await Promise.all([
+      this.env.CACHE.put(`preload-job:${job.id}`, JSON.stringify(job), { metadata, expirationTtl }),
+      // Lets a key page through its own jobs
+      ...job.keyId ? [this.env.CACHE.put(`${ownerPrefix(job.keyId)}${job.id}`, '', { metadata, expirationTtl })] : [],
+    ]);
+  }
+}
+
+function ownerPrefix(keyId: string): string {
+  return `preload-owner:${keyId}:`;
+}
+
+type PreloadJobSummary = Pick<PreloadJob, 'status' | 'stored' | 'failed' | 'keyId' | 'createdAt' | 'finishedAt'> & { total: number };
+
+/**
+ * Job as shown by the API: progress without the per-URL results
+ */
+export function publicPreloadJob(job: PreloadJob) {
+  const { urls, results, keyPrefixes, ...rest } = job;
+  const done = results.filter(result => result !== null).length;
+  return { ...rest, total: urls.length, done, pending: urls.length - done };
+}
+
+/**
+ * One page of a job's per-URL results, pending URLs included
+ */
+export function preloadResults(
+  job: PreloadJob,
+  options: { cursor?: number; limit?: number; status?: PreloadResult['status'] | 'pending' } = {},
+) {
+  const start = options.cursor ?? 0;
+  const limit = options.limit ?? 100;
+
+  const page: (PreloadResult | { url: string; status: 'pending' })[] = [];
+  let index = start;
+  for (; index < job.urls.length && page.length < limit; index++) {
+    const result = job.results[index] ?? { url: job.urls[index], status: 'pending' as const };
+    if (!options.status || result.status === options.status) page.push(result);
+  }
+
+  return { results: page, cursor: index < job.urls.length ? String(index) : null };
+}
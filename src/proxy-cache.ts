@@ -0,0 +1,348 @@
+/**
+ * RoadCDN Proxy Cache
+ *
+ * Caches proxied responses the way their origin asks:
+ * - Freshness from s-maxage, max-age or Expires, less Age; no-store and private
+ *   responses are passed through without being stored
+ * - Responses that vary on forwarded request headers are cached per variant
+ * - Expired entries are revalidated with If-None-Match / If-Modified-Since
+ * - The origin's validators and caching headers are kept and passed back
+ * - Callers may fill in or override the origin's freshness and rewrite the headers it is sent
+ */
+
+import { EdgeCache, CachedObject, CacheMeta, KV_MAX_METADATA_BYTES } from './cache';
+import { parseCacheControl, Freshness } from './cache-control';
+import { conditionalResponse } from './conditional';
+import { ProxyGuard, ProxiedResponse, ProxyFetchOptions } from './proxy';
+
+export type ProxyCacheStatus = 'HIT' | 'STALE' | 'REVALIDATED' | 'COALESCED' | 'MISS' | 'BYPASS';
+
+/**
+ * How a proxied response may be cached
+ */
+export interface OriginPolicy {
+  store: boolean;
+  freshness: Partial<Freshness>; // unset fields fall back to the worker's defaults
+  vary: string[]; // forwarded request headers the response varies on
+}
+
+/**
+ * A proxied response, cached or passed through
+ */
+export interface ProxyResult {
+  entry: CachedObject;
+  status: number; // origin status; stored entries are always 200
+  stored: boolean;
+}
+
+/**
+ * How a caller wants proxied responses cached, on top of what the origin says
+ */
+export interface ProxyCachePolicy {
+  ttl?: number; // for responses that don't say how long they stay fresh
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  override?: boolean; // the settings above win over the origin's; no-store and private still aren't cached
+  bypass?: boolean; // never cache
+}
+
+/**
+ * Changes to the headers sent to origins
+ */
+export interface HeaderRewrites {
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface ProxyCacheOptions {
+  key?: (url: string) => string; // cache key of a URL, default proxy:<url>
+  policy?: ProxyCachePolicy;
+  requestHeaders?: HeaderRewrites;
+  fetch?: ProxyFetchOptions;
+}
+
+/**
+ * An origin 5xx, thrown so callers can fall back to stale content or pass it on
+ */
+export class OriginError extends Error {
+  result: ProxyResult;
+
+  constructor(result: ProxyResult) {
+    super(`Origin responded with ${result.status}`);
+    this.result = result;
+  }
+}
+
+// Client headers forwarded to origins, and so the only ones Vary can split the cache on
+const FORWARDED_HEADERS = ['accept', 'accept-language'];
+
+// Origin headers kept with an entry and passed back, in order of importance
+const ORIGIN_HEADERS = ['cache-control', 'expires', 'content-language', 'content-disposition', 'location', 'retry-after'];
+
+// Statuses stored; anything else is passed through
+const CACHEABLE_STATUSES = [200];
+
+// Room left in the KV metadata for the freshness fields
+const METADATA_RESERVE = 128;
+
+/**
+ * Caching policy for an origin response. `policy` fills in what the origin
+ * says nothing about, or overrides what it does say.
+ */
+export function originPolicy(status: number, headers: Headers, policy: ProxyCachePolicy = {}): OriginPolicy {
+  const cc = parseCacheControl(headers.get('Cache-Control'));
+  const varyHeader = (headers.get('Vary') || '').toLowerCase().split(',').map(v => v.trim()).filter(Boolean);
+  const vary = varyHeader.filter(name => FORWARDED_HEADERS.includes(name));
+
+  const store = CACHEABLE_STATUSES.includes(status) && !cc.noStore && !cc.private && !varyHeader.includes('*')
+    && !policy.bypass;
+
+  if (policy.override) {
+    return {
+      store,
+      vary,
+      freshness: { ttl: policy.ttl, staleWhileRevalidate: policy.staleWhileRevalidate, staleIfError: policy.staleIfError },
+    };
+  }
+
+  // Seconds since the origin (or a cache in front of it) generated the response
+  const age = parseInt(headers.get('Age') || '0') || 0;
+
+  let lifetime: number | undefined;
+  if (cc.noCache) {
+    lifetime = 0;
+  } else if (cc.sMaxAge !== undefined || cc.maxAge !== undefined) {
+    lifetime = cc.sMaxAge ?? cc.maxAge;
+  } else if (headers.has('Expires')) {
+    // Invalid dates mean "already expired"
+    const expires = Date.parse(headers.get('Expires')!);
+    const date = Date.parse(headers.get('Date') || '') || Date.now();
+    lifetime = isNaN(expires) ? 0 : Math.floor((expires - date) / 1000);
+  } else {
+    lifetime = policy.ttl;
+  }
+
+  const revalidate = cc.noCache || cc.mustRevalidate;
+
+  return {
+    store,
+    vary,
+    freshness: {
+      ttl: lifetime !== undefined ? Math.max(lifetime - age, 0) : undefined,
+      staleWhileRevalidate: revalidate ? 0 : cc.staleWhileRevalidate ?? policy.staleWhileRevalidate,
+      staleIfError: cc.mustRevalidate ? 0 : cc.staleIfError ?? policy.staleIfError,
+    },
+  };
+}
+
+/**
+ * Headers to send the origin: the client's forwarded headers, rewritten
+ */
+export function forwardedHeaders(request?: Request, rewrites: HeaderRewrites = {}): Headers {
+  const headers = new Headers();
+  for (const name of FORWARDED_HEADERS) {
+    const value = request?.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  for (const name of rewrites.remove ?? []) headers.delete(name);
+  for (const [name, value] of Object.entries(rewrites.set ?? {})) headers.set(name, value);
+  return headers;
+}
+
+/**
+ * Cache key of a proxied response, per variant when the origin varies on request headers
+ */
+export function proxyCacheKey(key: string, vary: string[] = [], request?: Request): string {
+  if (vary.length === 0) return key;
+  return `${key}\n${vary.map(name => `${name}=${request?.headers.get(name) ?? ''}`).join('\n')}`;
+}
+
+/**
+ * Entry metadata for an origin response. Origin headers are kept as long as
+ * they fit in the KV metadata.
+ */
+function originMeta(response: ProxiedResponse, vary: string[]): Omit<CacheMeta, 'freshUntil' | 'staleWhileRevalidate' | 'staleIfError'> {
+  const age = parseInt(response.headers.get('Age') || '0') || 0;
+  const lastModified = Date.parse(response.headers.get('Last-Modified') || '');
+
+  const meta = {
+    contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+    etag: response.headers.get('ETag') || '',
+    size: response.body.byteLength,
+    lastModified: isNaN(lastModified) ? undefined : lastModified,
+    vary: vary.length > 0 ? vary : undefined,
+    headers: {} as Record<string, string>,
+    createdAt: Date.now() - age * 1000,
+  };
+
+  for (const name of ORIGIN_HEADERS) {
+    const value = response.headers.get(name);
+    if (value === null) continue;
+
+    meta.headers[name] = value;
+    if (JSON.stringify(meta).length > KV_MAX_METADATA_BYTES - METADATA_RESERVE) delete meta.headers[name];
+  }
+
+  return meta;
+}
+
+/**
+ * Client response for a proxied entry, answering the client's own conditionals
+ */
+export function proxyResponse(request: Request, result: ProxyResult, cacheStatus: ProxyCacheStatus): Response {
+  const { meta, body } = result.entry;
+  const headers = new Headers(meta.headers);
+
+  headers.set('Content-Type', meta.contentType);
+  if (meta.etag) headers.set('ETag', meta.etag);
+  if (meta.lastModified) headers.set('Last-Modified', new Date(meta.lastModified).toUTCString());
+  if (meta.vary) headers.set('Vary', meta.vary.join(', '));
+  headers.set('Age', String(Math.max(Math.floor((Date.now() - meta.createdAt) / 1000), 0)));
+  headers.set('X-Cache', cacheStatus);
+
+  if (result.status === 200) {
+    const conditional = conditionalResponse(request, {
+      exists: true,
+      etag: meta.etag || undefined,
+      lastModified: meta.lastModified ? new Date(meta.lastModified) : undefined,
+    }, headers);
+    if (conditional) return conditional;
+  }
+
+  return new Response(body, { status: result.status, headers });
+}
+
+/**
+ * Proxied responses in the edge cache
+ */
+export class ProxyCache {
+  private cache: EdgeCache;
+  private guard: ProxyGuard;
+  private options: ProxyCacheOptions;
+
+  constructor(cache: EdgeCache, guard: ProxyGuard, options: ProxyCacheOptions = {}) {
+    this.cache = cache;
+    this.guard = guard;
+    this.options = options;
+  }
+
+  private key(url: string): string {
+    return this.options.key?.(url) ?? `proxy:${url}`;
+  }
+
+  private async fetch(url: string, headers: Headers): Promise<ProxiedResponse> {
+    return await this.guard.fetch(url, headers, this.options.fetch);
+  }
+
+  /**
+   * Key concurrent fetches of a URL are coalesced on. Requests sharing it send
+   * the origin the same headers, so whatever it answers one of them holds for all.
+   */
+  flightKey(url: string, request?: Request): string {
+    return proxyCacheKey(this.key(url), FORWARDED_HEADERS, request);
+  }
+
+  /**
+   * The cached entry for a URL and the client's variant of it
+   */
+  async lookup(url: string, request?: Request): Promise<{ key: string; entry: CachedObject | null }> {
+    const key = this.key(url);
+    const entry = await this.cache.get(key);
+
+    // Varying responses leave a marker naming the headers under the plain key
+    if (entry?.meta.vary) {
+      const variantKey = proxyCacheKey(key, entry.meta.vary, request);
+      return { key: variantKey, entry: await this.cache.get(variantKey) };
+    }
+
+    return { key, entry };
+  }
+
+  /**
+   * Fetch a URL from its origin and cache it if the origin allows.
+   * Refused fetches and network errors throw a ProxyError, 5xx responses an
+   * OriginError, so callers can fall back to stale content.
+   */
+  async fill(url: string, request?: Request): Promise<ProxyResult> {
+    const response = await this.fetch(url, forwardedHeaders(request, this.options.requestHeaders));
+    return await this.store(url, response, request);
+  }
+
+  /**
+   * Check an entry with the origin. Unchanged entries get a new lifetime from
+   * the 304's headers; changed ones are replaced.
+   */
+  async revalidate(url: string, key: string, entry: CachedObject, request?: Request): Promise<ProxyResult & { revalidated: boolean }> {
+    const headers = forwardedHeaders(request, this.options.requestHeaders);
+    if (entry.meta.etag) headers.set('If-None-Match', entry.meta.etag);
+    if (entry.meta.lastModified) headers.set('If-Modified-Since', new Date(entry.meta.lastModified).toUTCString());
+
+    const response = await this.fetch(url, headers);
+
+    if (response.status !== 304) {
+      return { ...await this.store(url, response, request), revalidated: false };
+    }
+
+    // A 304 updates the stored headers it carries
+    const merged = new Headers(entry.meta.headers);
+    merged.set('Content-Type', entry.meta.contentType);
+    if (entry.meta.etag) merged.set('ETag', entry.meta.etag);
+    if (entry.meta.lastModified) merged.set('Last-Modified', new Date(entry.meta.lastModified).toUTCString());
+    for (const name of [...ORIGIN_HEADERS, 'etag', 'last-modified', 'date', 'age']) {
+      const value = response.headers.get(name);
+      if (value !== null) merged.set(name, value);
+    }
+    merged.set('Vary', (entry.meta.vary ?? []).join(', '));
+
+    // Without freshness headers on the 304, the entry keeps its lifetime
+    const refreshed: ProxiedResponse = { ...response, status: 200, headers: merged, body: entry.body };
+    const lifetime = (entry.meta.freshUntil - entry.meta.createdAt) / 1000;
+    const policy = originPolicy(200, merged, this.options.policy?.override
+      ? this.options.policy
+      : { ...this.options.policy, ttl: lifetime });
+    const meta = originMeta(refreshed, entry.meta.vary ?? []);
+
+    if (policy.store) {
+      await this.cache.put(key, entry.body, meta, policy.freshness);
+    } else {
+      await this.cache.delete(key);
+    }
+
+    return {
+      entry: { meta: this.cache.buildMeta(meta, policy.freshness), body: entry.body },
+      status: 200,
+      stored: policy.store,
+      revalidated: true,
+    };
+  }
+
+  private async store(url: string, response: ProxiedResponse, request?: Request): Promise<ProxyResult> {
+    const key = this.key(url);
+    const policy = originPolicy(response.status, response.headers, this.options.policy);
+    const meta = originMeta(response, policy.vary);
+    const entry = { meta: this.cache.buildMeta(meta, policy.freshness), body: response.body };
+
+    if (response.status >= 500) {
+      throw new OriginError({ entry, status: response.status, stored: false });
+    }
+
+    if (!policy.store) {
+      // What was cached for the URL no longer reflects what the origin allows
+      if (CACHEABLE_STATUSES.includes(response.status)) {
+        await this.cache.delete(key);
+      }
+      return { entry, status: response.status, stored: false };
+    }
+
+    let stored: boolean;
+    if (policy.vary.length > 0) {
+      stored = await this.cache.put(proxyCacheKey(key, policy.vary, request), response.body, meta, policy.freshness);
+      await this.cache.put(key, new ArrayBuffer(0), { ...meta, size: 0, headers: undefined }, policy.freshness);
+    } else {
+      stored = await this.cache.put(key, response.body, meta, policy.freshness);
+    }
+
+    return { entry, status: response.status, stored };
+  }
+}
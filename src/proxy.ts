@@ -0,0 +1,393 @@
+/**
+ * RoadCDN Proxy Guard
+ *
+ * Outbound fetches for /proxy, /preload and pull zones:
+ * - Only http(s) URLs on allowlisted origins (exact hosts or `*.` wildcards)
+ * - Private, loopback, link-local and other non-public addresses are refused,
+ *   whether given literally or resolved from a hostname
+ * - Redirects are followed by hand, up to a limit, and every hop is checked again
+ * - Responses are capped in size and time
+ */
+
+import { Hono, Context } from 'hono';
+import { AppEnv } from './env';
+
+/**
+ * Why an outbound fetch was refused or abandoned
+ */
+export type ProxyFailure =
+  | 'invalid_url'
+  | 'scheme_not_allowed'
+  | 'origin_not_allowed'
+  | 'address_not_allowed'
+  | 'too_many_redirects'
+  | 'response_too_large'
+  | 'timeout'
+  | 'fetch_failed';
+
+export interface ProxyLimits {
+  maxBytes: number;
+  timeout: number; // ms, for the whole fetch including redirects and the body
+  maxRedirects: number;
+}
+
+interface ProxyConfig extends Partial<ProxyLimits> {
+  origins: string[]; // "example.com", "example.com:8443" or "*.example.com"
+}
+
+export interface ProxyFetchOptions {
+  origins?: string[]; // checked instead of the allowlist
+  followRedirects?: boolean; // default true; otherwise redirects are returned as is
+}
+
+export interface ProxiedResponse {
+  url: string; // after redirects
+  status: number;
+  headers: Headers;
+  body: ArrayBuffer;
+}
+
+const FAILURES: Record<ProxyFailure, { message: string; status: 400 | 403 | 502 | 504 }> = {
+  invalid_url: { message: 'URL is malformed', status: 400 },
+  scheme_not_allowed: { message: 'Only http and https URLs can be proxied', status: 400 },
+  origin_not_allowed: { message: 'Origin is not on the proxy allowlist', status: 403 },
+  address_not_allowed: { message: 'Origin resolves to a private or reserved address', status: 403 },
+  too_many_redirects: { message: 'Origin redirected too many times', status: 502 },
+  response_too_large: { message: 'Origin response exceeds the size limit', status: 502 },
+  timeout: { message: 'Origin did not respond in time', status: 504 },
+  fetch_failed: { message: 'Failed to fetch from origin', status: 502 },
+};
+
+const CONFIG_KEY = 'cdn:proxy-allowlist';
+
+export const DEFAULT_PROXY_LIMITS: ProxyLimits = {
+  maxBytes: 25 * 1024 * 1024, // the largest KV value
+  timeout: 10_000,
+  maxRedirects: 5,
+};
+
+const DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+// How long each isolate may reuse a hostname's address check
+const RESOLVE_CACHE_TTL = 60_000;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Hostname -> whether every address it resolves to is public
+const resolved = new Map<string, { allowed: boolean; checkedAt: number }>();
+
+/**
+ * A refused or failed outbound fetch
+ */
+export class ProxyError extends Error {
+  reason: ProxyFailure;
+
+  constructor(reason: ProxyFailure) {
+    super(FAILURES[reason].message);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error response for a refused or failed outbound fetch
+ */
+export function proxyFailure(c: Context, reason: ProxyFailure): Response {
+  const { message, status } = FAILURES[reason];
+  return c.json({ error: message, reason }, status);
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p) || parseInt(p) > 255)) return null;
+  return parts.map(p => parseInt(p));
+}
+
+/**
+ * Whether an IPv4 address is outside the public internet
+ */
+function isReservedIPv4([a, b, c]: number[]): boolean {
+  return a === 0 // "this" network
+    || a === 10 // private
+    || a === 127 // loopback
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local
+    || (a === 172 && b >= 16 && b <= 31) // private
+    || (a === 192 && b === 0 && c === 0) // protocol assignments
+    || (a === 192 && b === 0 && c === 2) // documentation
+    || (a === 192 && b === 168) // private
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || (a === 198 && b === 51 && c === 100) // documentation
+    || (a === 203 && b === 0 && c === 113) // documentation
+    || a >= 224; // multicast, reserved and broadcast
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!text.includes(':')) return null;
+
+  // A trailing dotted IPv4 address stands for the last two groups
+  const dotted = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[1]);
+    if (!v4) return null;
+    text = `${text.slice(0, -dotted[1].length)}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const [head, tail, ...rest] = text.split('::');
+  if (rest.length > 0) return null;
+
+  const groups = (part: string | undefined) => (part ? part.split(':') : []);
+  const left = groups(head);
+  const right = groups(tail);
+  const missing = 8 - left.length - right.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const all = [...left, ...Array(tail === undefined ? 0 : missing).fill('0'), ...right];
+  if (all.some(g => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return all.map(g => parseInt(g, 16));
+}
+
+/**
+ * Whether an IPv6 address is outside the public internet
+ */
+function isReservedIPv6(groups: number[]): boolean {
+  const [first] = groups;
+
+  if (groups.slice(0, 7).every(g => g === 0) && groups[7] <= 1) return true; // unspecified and loopback
+  if (groups.slice(0, 5).every(g => g === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    // IPv4-mapped and -compatible
+    return isReservedIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return (first & 0xfe00) === 0xfc00 // unique local
+    || (first & 0xffc0) === 0xfe80 // link-local
+    || (first & 0xffc0) === 0xfec0 // site-local
+    || (first & 0xff00) === 0xff00 // multicast
+    || (first === 0x0064 && groups[1] === 0xff9b) // NAT64
+    || (first === 0x2001 && groups[1] === 0x0db8); // documentation
+}
+
+/**
+ * Whether an address literal is private or reserved. Hostnames return null.
+ */
+export function isReservedAddress(address: string): boolean | null {
+  const v4 = parseIPv4(address);
+  if (v4) return isReservedIPv4(v4);
+
+  const v6 = parseIPv6(address);
+  if (v6) return isReservedIPv6(v6);
+
+  return null;
+}
+
+/**
+ * Whether an allowlist entry covers a host and port
+ */
+function matchesOrigin(entry: string, hostname: string, port: string): boolean {
+  const [pattern, entryPort] = entry.toLowerCase().split(/:(?=\d+$)/);
+  if ((entryPort ?? '') !== port) return false;
+
+  return pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1)) && hostname.length > pattern.length - 1
+    : hostname === pattern;
+}
+
+/**
+ * Whether every address a hostname resolves to is public. Unresolvable names
+ * are refused.
+ */
+async function resolvesPublicly(hostname: string): Promise<boolean> {
+  const cached = resolved.get(hostname);
+  if (cached && Date.now() - cached.checkedAt < RESOLVE_CACHE_TTL) return cached.allowed;
+
+  const answers = await Promise.all(['A', 'AAAA'].map(async type => {
+    const response = await fetch(`${DOH_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { Accept: 'application/dns-json' },
+    });
+    if (!response.ok) throw new ProxyError('fetch_failed');
+
+    const result = await response.json<{ Answer?: { type: number; data: string }[] }>();
+    // Only address records; CNAMEs in the chain are followed by the resolver
+    return (result.Answer ?? []).filter(a => a.type === 1 || a.type === 28).map(a => a.data);
+  }));
+
+  const addresses = answers.flat();
+  const allowed = addresses.length > 0 && addresses.every(address => isReservedAddress(address) === false);
+  resolved.set(hostname, { allowed, checkedAt: Date.now() });
+  return allowed;
+}
+
+/**
+ * Proxy allowlist and limits, and the fetches they govern
+ */
+export class ProxyGuard {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async getConfig(): Promise<{ origins: string[]; limits: ProxyLimits }> {
+    const config = await this.kv.get<ProxyConfig>(CONFIG_KEY, { type: 'json', cacheTtl: 60 });
+    return {
+      origins: config?.origins ?? [],
+      limits: {
+        maxBytes: config?.maxBytes ?? DEFAULT_PROXY_LIMITS.maxBytes,
+        timeout: config?.timeout ?? DEFAULT_PROXY_LIMITS.timeout,
+        maxRedirects: config?.maxRedirects ?? DEFAULT_PROXY_LIMITS.maxRedirects,
+      },
+    };
+  }
+
+  async setConfig(origins: string[], limits: Partial<ProxyLimits>): Promise<void> {
+    await this.kv.put(CONFIG_KEY, JSON.stringify({ origins, ...limits }));
+  }
+
+  /**
+   * Why a URL may not be fetched, without resolving its hostname; null when it may
+   */
+  async check(url: string, origins?: string[]): Promise<ProxyFailure | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'invalid_url';
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'scheme_not_allowed';
+    if (parsed.username || parsed.password) return 'invalid_url';
+
+    const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    const literal = isReservedAddress(hostname);
+    if (literal === true || hostname === 'localhost' || hostname.endsWith('.localhost')) {
+      return 'address_not_allowed';
+    }
+
+    const allowlist = origins ?? (await this.getConfig()).origins;
+    if (!allowlist.some(entry => matchesOrigin(entry, hostname, parsed.port))) return 'origin_not_allowed';
+
+    return null;
+  }
+
+  /**
+   * Fetch an allowlisted URL, following redirects within the limits.
+   * Throws a ProxyError when the fetch is refused or fails.
+   */
+  async fetch(url: string, headers?: HeadersInit, options: ProxyFetchOptions = {}): Promise<ProxiedResponse> {
+    const config = await this.getConfig();
+    const origins = options.origins ?? config.origins;
+    const { limits } = config;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), limits.timeout);
+
+    try {
+      let current = url;
+
+      for (let redirects = 0; ; redirects++) {
+        const failure = await this.check(current, origins);
+        if (failure) throw new ProxyError(failure);
+
+        const { hostname } = new URL(current);
+        if (isReservedAddress(hostname) === null && !await resolvesPublicly(hostname.toLowerCase())) {
+          throw new ProxyError('address_not_allowed');
+        }
+
+        const response = await fetch(current, { headers, redirect: 'manual', signal: controller.signal });
+        const location = response.headers.get('Location');
+
+        if (REDIRECT_STATUSES.includes(response.status) && location && options.followRedirects !== false) {
+          await response.body?.cancel();
+          if (redirects >= limits.maxRedirects) throw new ProxyError('too_many_redirects');
+          current = new URL(location, current).toString();
+          continue;
+        }
+
+        return {
+          url: current,
+          status: response.status,
+          headers: response.headers,
+          body: await readLimited(response, limits.maxBytes),
+        };
+      }
+    } catch (e) {
+      if (e instanceof ProxyError) throw e;
+      throw new ProxyError(controller.signal.aborted ? 'timeout' : 'fetch_failed');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Read a response body, giving up once it passes `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer> {
+  const declared = parseInt(response.headers.get('Content-Length') || '');
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new ProxyError('response_too_large');
+  }
+  if (!response.body) return new ArrayBuffer(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new ProxyError('response_too_large');
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+/**
+ * Whether an allowlist entry is a hostname, optionally with a port, or a `*.` wildcard
+ */
+function validOrigin(entry: string): boolean {
+  return /^(\*\.)?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?(:\d{1,5})?$/i.test(entry);
+}
+
+/**
+ * Proxy allowlist admin routes. They rely on the app-wide requireScope('admin').
+ */
+export function createProxyRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  app.get('/admin/proxy', async (c) => {
+    return c.json(await new ProxyGuard(c.env.CACHE).getConfig());
+  });
+
+  app.put('/admin/proxy', async (c) => {
+    const body = await c.req.json<{ origins: string[]; limits?: Partial<ProxyLimits> }>();
+    const limits = body.limits ?? {};
+
+    if (!Array.isArray(body.origins) || body.origins.some(o => typeof o !== 'string' || !validOrigin(o))) {
+      return c.json({ error: 'origins must be a list of hosts such as "example.com", "example.com:8443" or "*.example.com"' }, 400);
+    }
+    if ([limits.maxBytes, limits.timeout, limits.maxRedirects].some(l => l !== undefined && (!Number.isInteger(l) || l < 0))) {
+      return c.json({ error: 'limits must be whole numbers: maxBytes, timeout (ms) and maxRedirects' }, 400);
+    }
+
+    const origins = body.origins.map(o => o.toLowerCase());
+    await new ProxyGuard(c.env.CACHE).setConfig(origins, limits);
+    return c.json({ origins, limits: { ...DEFAULT_PROXY_LIMITS, ...limits } });
+  });
+
+  return app;
+}
@@ -0,0 +1,604 @@
+/**
+ * RoadCDN Purging
+ *
+ * Features:
+ * - Cache tags (surrogate keys) attached at upload time
+ * - Purge by path, tag, prefix or glob, or everything
+ * - Paginates through every matching key, however many there are
+ * - Derived entries go too: encoded variants, image transforms and proxied copies
+ * - Large purges run as background jobs, checkpointed so they can resume
+ */
+
+import { takeJobLease, releaseJobLease } from './coalesce';
+import { globToRegExp } from './rules';
+import { kvScope } from './tenants';
+
+// Tag limits keep tag index keys well under KV's 512 byte key limit
+const MAX_TAGS = 32;
+const MAX_TAG_LENGTH = 128;
+
+// R2 custom metadata field holding an asset's tags
+const TAGS_FIELD = 'tags';
+
+/**
+ * What to purge: asset paths matching a predicate, found by listing key prefixes
+ */
+export interface PurgeSelector {
+  prefixes: string[];
+  matches(path: string): boolean;
+}
+
+/**
+ * Parse a Cache-Tag header (comma separated). Returns an error message for invalid tags.
+ */
+export function parseCacheTags(header: string | undefined | null): string[] | string {
+  if (!header) return [];
+
+  const tags = [...new Set(header.split(',').map(t => t.trim()).filter(Boolean))];
+
+  if (tags.length > MAX_TAGS) return `At most ${MAX_TAGS} cache tags per asset`;
+  const invalid = tags.find(t => t.length > MAX_TAG_LENGTH || /\s/.test(t));
+  if (invalid !== undefined) return `Invalid cache tag: ${invalid}`;
+
+  return tags;
+}
+
+/**
+ * Cache tags stored on an R2 object
+ */
+export function objectTags(object: R2Object | null): string[] {
+  const tags = object?.customMetadata?.[TAGS_FIELD];
+  return tags ? tags.split(',') : [];
+}
+
+/**
+ * R2 custom metadata recording tags
+ */
+export function tagMetadata(tags: string[]): Record<string, string> {
+  return tags.length > 0 ? { [TAGS_FIELD]: tags.join(',') } : {};
+}
+
+/**
+ * Literal part of a glob before its first wildcard
+ */
+export function globPrefix(glob: string): string {
+  const wildcard = glob.search(/[*?]/);
+  return wildcard === -1 ? glob : glob.slice(0, wildcard);
+}
+
+export function pathSelector(paths: string[]): PurgeSelector {
+  const set = new Set(paths);
+  return { prefixes: [...set], matches: path => set.has(path) };
+}
+
+export function prefixSelector(prefixes: string[]): PurgeSelector {
+  return { prefixes, matches: path => prefixes.some(prefix => path.startsWith(prefix)) };
+}
+
+export function globSelector(globs: string[]): PurgeSelector {
+  const patterns = globs.map(globToRegExp);
+  return { prefixes: globs.map(globPrefix), matches: path => patterns.some(p => p.test(path)) };
+}
+
+/**
+ * Assets matched by any of several selectors
+ */
+export function anySelector(selectors: PurgeSelector[]): PurgeSelector {
+  return {
+    prefixes: selectors.flatMap(s => s.prefixes),
+    matches: path => selectors.some(s => s.matches(path)),
+  };
+}
+
+export function allSelector(): PurgeSelector {
+  return { prefixes: [''], matches: () => true };
+}
+
+/**
+ * Tag index key, or the prefix of every key for a tag
+ */
+function tagKey(tag: string, path = ''): string {
+  return `tag:${encodeURIComponent(tag)}:${path}`;
+}
+
+/**
+ * Tag -> path index in KV (`tag:<tag>:<path>`)
+ */
+export class TagIndex {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Record an asset's tags, dropping tags it no longer carries
+   */
+  async update(path: string, tags: string[], previous: string[] = []): Promise<void> {
+    const removed = previous.filter(tag => !tags.includes(tag));
+    await Promise.all([
+      ...tags.map(tag => this.kv.put(tagKey(tag, path), '')),
+      ...removed.map(tag => this.kv.delete(tagKey(tag, path))),
+    ]);
+  }
+
+  /**
+   * Forget a deleted asset
+   */
+  async remove(path: string, tags: string[]): Promise<void> {
+    await Promise.all(tags.map(tag => this.kv.delete(tagKey(tag, path))));
+  }
+}
+
+/**
+ * What a purge targets, as sent to POST /purge
+ */
+export interface PurgeSpec {
+  paths?: string[];
+  tags?: string[];
+  prefixes?: string[];
+  globs?: string[];
+  all?: boolean;
+}
+
+/**
+ * Problems with a purge spec, empty when it is valid
+ */
+export function validatePurgeSpec(spec: PurgeSpec): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['paths', 'tags', 'prefixes', 'globs'] as const) {
+    const value = spec[field];
+    if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string'))) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+  if (spec.all !== undefined && typeof spec.all !== 'boolean') {
+    errors.push('all must be true or false');
+  }
+
+  return errors;
+}
+
+export type PurgeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PurgeJob {
+  id: string;
+  spec: PurgeSpec;
+  keyId?: string; // API key that started the purge
+  keyPrefixes?: string[]; // tagged assets outside these are left alone
+  status: PurgeJobStatus;
+  matched: number;
+  deleted: number;
+  failed: number;
+  taggedPaths: string[];
+  checkpoint: { phase: number; cursor?: string };
+  errors: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * How much work one invocation may spend on purge jobs. KV operations are
+ * capped per invocation, so both time and operations are budgeted.
+ */
+export interface PurgeBudget {
+  deadline: number;
+  operations: number;
+}
+
+// One invocation's budget, and the slice of it a purge may run inside the
+// request; larger purges continue in the background on the rest
+export const INLINE_BUDGET = { timeMs: 5000, operations: 200 };
+export const BACKGROUND_BUDGET = { timeMs: 25000, operations: 900 };
+
+// Finished jobs stay queryable this long
+const JOB_HISTORY_TTL = 86400 * 30; // 30 days
+
+// Consecutive errors before a job is given up on
+const MAX_JOB_ERRORS = 5;
+
+// KV allows one write per second to the same key
+const CHECKPOINT_INTERVAL = 1000;
+
+// Deletes already started when the budget runs out are finished; the lease
+// outlasts a page of them
+const LEASE_GRACE = 30_000;
+
+// Shared-namespace index of tenants with queued jobs: jobs-pending:<tenant id>
+const PENDING_PREFIX = 'jobs-pending:';
+
+// A tenant leaves the index only once its queues were found empty this long
+// after it was last marked, by which time KV shows every queued job
+const PENDING_GRACE = 5 * 60_000;
+
+/**
+ * Cache key namespaces holding entries derived from assets
+ */
+const NAMESPACES: {
+  prefix: string;
+  scanAll?: boolean;
+  listPrefix?(root: string): string | null; // KV prefix to list for a path prefix; null when nothing can match
+  assetPath(key: string): string | null;
+}[] = [
+  // Edge cache entries, one per negotiated encoding: cache:<path>[#<encoding>]
+  { prefix: 'cache:', assetPath: key => key.replace(/#(br|gzip)$/, '') },
+  // Image transforms: transform:<path>?<params>
+  { prefix: 'transform:', assetPath: key => key.split('?')[0] },
+  // Proxied copies of assets, matched by URL path: proxy:<url>. URLs don't
+  // start with the asset path, so every proxied entry is checked.
+  {
+    prefix: 'proxy:',
+    scanAll: true,
+    assetPath: key => {
+      try {
+        return decodeURIComponent(new URL(key).pathname).replace(/^\/(cdn\/)?/, '');
+      } catch {
+        return null;
+      }
+    },
+  },
+  // Pull zone responses, purged as zone/<name>/<path>: zone:<name>/<path>[?<query>][\n<variant>]
+  {
+    prefix: 'zone:',
+    listPrefix: root => root.startsWith('zone/') ? root.slice('zone/'.length) : 'zone/'.startsWith(root) ? '' : null,
+    assetPath: key => `zone/${key.split(/[?\n]/)[0]}`,
+  },
+];
+
+type Phase =
+  | { kind: 'tag'; tag: string }
+  | { kind: 'scan'; namespace: number; prefix: string };
+
+/**
+ * Selector for a spec, once its tags have been resolved to paths
+ */
+export function selectorFor(spec: PurgeSpec, taggedPaths: string[] = []): PurgeSelector {
+  if (spec.all) return allSelector();
+
+  const selectors: PurgeSelector[] = [];
+  if (spec.paths?.length) selectors.push(pathSelector(spec.paths));
+  if (spec.prefixes?.length) selectors.push(prefixSelector(spec.prefixes));
+  if (spec.globs?.length) selectors.push(globSelector(spec.globs));
+  if (taggedPaths.length) selectors.push(pathSelector(taggedPaths));
+
+  return anySelector(selectors);
+}
+
+/**
+ * Work of a job in order: resolve tags first, then scan each namespace.
+ * Tag phases come first, so scan phases are stable once they start.
+ */
+function jobPhases(job: PurgeJob): Phase[] {
+  const tags: Phase[] = (job.spec.tags ?? []).map(tag => ({ kind: 'tag', tag }));
+
+  // Nested prefixes would list the same keys twice
+  const prefixes = selectorFor(job.spec, job.taggedPaths).prefixes;
+  const roots = [...new Set(prefixes)]
+    .filter((prefix, _, all) => !all.some(other => other !== prefix && prefix.startsWith(other)));
+  if (roots.length === 0) return tags;
+
+  const scans: Phase[] = NAMESPACES.flatMap((ns, namespace) => {
+    const prefixes = ns.scanAll ? [''] : roots.map(root => ns.listPrefix ? ns.listPrefix(root) : root);
+    return [...new Set(prefixes)]
+      .filter((prefix): prefix is string => prefix !== null)
+      .map(prefix => ({ kind: 'scan' as const, namespace, prefix }));
+  });
+
+  return [...tags, ...scans];
+}
+
+/**
+ * Purge jobs: created per POST /purge, run in checkpointed slices until done
+ */
+export class PurgeJobManager {
+  private kv: KVNamespace;
+  private locks: DurableObjectNamespace;
+
+  constructor(kv: KVNamespace, locks: DurableObjectNamespace) {
+    this.kv = kv;
+    this.locks = locks;
+  }
+
+  /**
+   * Record a new job and queue it
+   */
+  async create(spec: PurgeSpec, keyId?: string, keyPrefixes?: string[]): Promise<PurgeJob> {
+    const now = Date.now();
+    const job: PurgeJob = {
+      // Time-ordered so the history lists oldest first
+      id: `${now.toString(36).padStart(9, '0')}-${crypto.randomUUID().slice(0, 8)}`,
+      spec,
+      keyId,
+      keyPrefixes: keyPrefixes?.length ? keyPrefixes : undefined,
+      status: 'queued',
+      matched: 0,
+      deleted: 0,
+      failed: 0,
+      taggedPaths: [],
+      checkpoint: { phase: 0 },
+      errors: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await Promise.all([this.save(job), this.kv.put(`purge-queue:${job.id}`, ''), markJobsPending(this.kv)]);
+    return job;
+  }
+
+  async get(id: string): Promise<PurgeJob | null> {
+    return await this.kv.get(`purge-job:${id}`, 'json') as PurgeJob | null;
+  }
+
+  /**
+   * Job history, oldest first, from listing metadata only: every job, or the
+   * jobs one API key started
+   */
+  async list(options: { cursor?: string; limit?: number; keyId?: string } = {}) {
+    const prefix = options.keyId !== undefined ? ownerPrefix(options.keyId) : 'purge-job:';
+    const list = await this.kv.list<PurgeJobSummary>({
+      prefix,
+      cursor: options.cursor,
+      limit: options.limit,
+    });
+
+    return {
+      jobs: list.keys.map(key => ({ id: key.name.slice(prefix.length), ...key.metadata })),
+      cursor: list.list_complete ? null : list.cursor,
+    };
+  }
+
+  /**
+   * Run a job until it finishes or the budget runs out
+   */
+  async run(id: string, budget: PurgeBudget): Promise<PurgeJob | null> {
+    const job = await this.get(id);
+    if (!job || job.status === 'completed' || job.status === 'failed') return job;
+
+    // Held by the lock rather than in KV, where two locations can both see the job unleased
+    const lockName = `${kvScope(this.kv).tenantId}:purge-job:${id}`;
+    const lease = await takeJobLease(this.locks, lockName, budget.deadline + LEASE_GRACE - Date.now());
+    if (!lease) return job;
+
+    // This location hasn't seen the last run's progress yet; a later run picks the job up
+    if (job.updatedAt < lease.savedAt) {
+      await releaseJobLease(this.locks, lockName, lease.token, lease.savedAt);
+      return job;
+    }
+
+    let status: PurgeJobStatus | null = null;
+    try {
+      status = await this.work(job, budget);
+    } finally {
+      // The next run learns when this one last saved
+      await releaseJobLease(this.locks, lockName, lease.token, status ? job.updatedAt : lease.savedAt);
+    }
+
+    if (status === 'completed' || status === 'failed') {
+      await this.kv.delete(`purge-queue:${job.id}`);
+    }
+
+    return job;
+  }
+
+  /**
+   * One leased run of a job. Returns its status once saved.
+   */
+  private async work(job: PurgeJob, budget: PurgeBudget): Promise<PurgeJobStatus> {
+    job.status = 'running';
+    job.updatedAt = Date.now();
+    await this.save(job);
+
+    let lastSaved = Date.now();
+
+    try {
+      while (Date.now() < budget.deadline && budget.operations > 0) {
+        const phases = jobPhases(job);
+        const phase = phases[job.checkpoint.phase];
+
+        if (!phase) {
+          job.status = 'completed';
+          job.finishedAt = Date.now();
+          break;
+        }
+
+        const prefix = phase.kind === 'tag'
+          ? tagKey(phase.tag)
+          : `${NAMESPACES[phase.namespace].prefix}${phase.prefix}`;
+
+        const list = await this.kv.list({ prefix, cursor: job.checkpoint.cursor });
+        budget.operations -= 1;
+
+        // A page the budget didn't cover is listed again from the same cursor.
+        // Keys deleted from it are gone by then, so no offset into it is kept.
+        const keys = list.keys.map(key => key.name);
+        let pageDone = true;
+
+        if (phase.kind === 'tag') {
+          const seen = new Set(job.taggedPaths);
+          const paths = keys.map(key => key.slice(prefix.length))
+            .filter(path => !job.keyPrefixes || job.keyPrefixes.some(p => path.startsWith(p)));
+          job.taggedPaths.push(...paths.filter(path => !seen.has(path)));
+        } else {
+          const ns = NAMESPACES[phase.namespace];
+          const selector = selectorFor(job.spec, job.taggedPaths);
+          const matched = keys.filter(key => {
+            const path = ns.assetPath(key.slice(ns.prefix.length));
+            return path !== null && selector.matches(path);
+          });
+
+          // Non-matching keys cost nothing; stop at the last matched key the budget covers
+          const allowed = matched.slice(0, Math.max(budget.operations, 0));
+          pageDone = allowed.length === matched.length;
+
+          const results = await Promise.allSettled(allowed.map(key => this.kv.delete(key)));
+          budget.operations -= allowed.length;
+
+          job.matched += allowed.length;
+          job.deleted += results.filter(r => r.status === 'fulfilled').length;
+          job.failed += results.filter(r => r.status === 'rejected').length;
+        }
+
+        if (pageDone) {
+          job.checkpoint = list.list_complete
+            ? { phase: job.checkpoint.phase + 1 }
+            : { phase: job.checkpoint.phase, cursor: list.cursor };
+        }
+
+        job.errors = 0;
+
+        if (Date.now() - lastSaved >= CHECKPOINT_INTERVAL) {
+          job.updatedAt = Date.now();
+          await this.save(job);
+          budget.operations -= 1;
+          lastSaved = Date.now();
+        }
+      }
+    } catch (e) {
+      job.errors += 1;
+      job.lastError = (e as Error).message;
+      if (job.errors >= MAX_JOB_ERRORS) {
+        job.status = 'failed';
+        job.finishedAt = Date.now();
+      }
+    }
+
+    job.updatedAt = Date.now();
+    await this.save(job);
+    return job.status;
+  }
+
+  /**
+   * Continue every unfinished job, oldest first, within one budget. Returns
+   * whether any are left unfinished.
+   */
+  async resumePending(budget: PurgeBudget): Promise<boolean> {
+    let remaining = false;
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: 'purge-queue:', cursor });
+      budget.operations -= 1;
+
+      for (const key of list.keys) {
+        if (Date.now() >= budget.deadline || budget.operations <= 0) return true;
+        const job = await this.run(key.name.slice('purge-queue:'.length), budget);
+        if (job && job.status !== 'completed' && job.status !== 'failed') remaining = true;
+      }
+
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return remaining;
+  }
+
+  private async save(job: PurgeJob): Promise<void> {
+    const finished = job.status === 'completed' || job.status === 'failed';
+    const metadata: PurgeJobSummary = {
+      status: job.status,
+      matched: job.matched,
+      deleted: job.deleted,
+      failed: job.failed,
+      keyId: job.keyId,
+      createdAt: job.createdAt,
+      finishedAt: job.finishedAt,
+    };
+
+    const expirationTtl = finished ? JOB_HISTORY_TTL : undefined;
+
+    await Promise.all([
+      this.kv.put(`purge-job:${job.id}`, JSON.stringify(job), { metadata, expirationTtl }),
+      // Lets a key page through its own jobs
+      ...job.keyId ? [this.kv.put(`${ownerPrefix(job.keyId)}${job.id}`, '', { metadata, expirationTtl })] : [],
+    ]);
+  }
+}
+
+function ownerPrefix(keyId: string): string {
+  return `purge-owner:${keyId}:`;
+}
+
+type PurgeJobSummary = Pick<PurgeJob, 'status' | 'matched' | 'deleted' | 'failed' | 'keyId' | 'createdAt' | 'finishedAt'>;
+
+/**
+ * Record that the tenant a KV binding is scoped to has queued jobs
+ */
+export async function markJobsPending(kv: KVNamespace): Promise<void> {
+  const { shared, tenantId } = kvScope(kv);
+  try {
+    await shared.put(`${PENDING_PREFIX}${tenantId}`, '', { metadata: { markedAt: Date.now() } });
+  } catch {
+    // Marked concurrently; KV refuses more than one write per second to a key
+  }
+}
+
+export interface PendingJobs {
+  tenantId: string; // "" for the shared host
+  markedAt: number;
+}
+
+/**
+ * Tenants with queued jobs, from the shared namespace
+ */
+export async function listPendingJobs(kv: KVNamespace): Promise<PendingJobs[]> {
+  const pending: PendingJobs[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await kv.list<{ markedAt: number }>({ prefix: PENDING_PREFIX, cursor });
+    for (const key of list.keys) {
+      pending.push({ tenantId: key.name.slice(PENDING_PREFIX.length), markedAt: key.metadata?.markedAt ?? 0 });
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return pending;
+}
+
+/**
+ * Drop a tenant whose queues were found empty, unless it was marked too
+ * recently for its newest jobs to have shown up
+ */
+export async function clearJobsPending(kv: KVNamespace, pending: PendingJobs): Promise<void> {
+  if (Date.now() - pending.markedAt < PENDING_GRACE) return;
+  await kv.delete(`${PENDING_PREFIX}${pending.tenantId}`);
+}
+
+/**
+ * Budget starting now
+ */
+export function purgeBudget(limits: { timeMs: number; operations: number }): PurgeBudget {
+  return { deadline: Date.now() + limits.timeMs, operations: limits.operations };
+}
+
+/**
+ * Run `work` on a slice of a budget, at most `limits`, and charge what it
+ * spent to the budget, so work later in the same invocation gets only the rest
+ */
+export async function withinBudget<T>(
+  budget: PurgeBudget,
+  limits: { timeMs: number; operations: number },
+  work: (slice: PurgeBudget) => Promise<T>,
+): Promise<T> {
+  const slice = {
+    deadline: Math.min(budget.deadline, Date.now() + limits.timeMs),
+    operations: Math.min(budget.operations, limits.operations),
+  };
+  const granted = slice.operations;
+
+  try {
+    return await work(slice);
+  } finally {
+    budget.operations -= granted - slice.operations;
+  }
+}
+
+/**
+ * Job as shown by the API, without the resolved tag paths
+ */
+export function publicJob(job: PurgeJob) {
+  const { taggedPaths, checkpoint, keyPrefixes, ...rest } = job;
+  return { ...rest, taggedPaths: taggedPaths.length };
+}
@@ -0,0 +1,655 @@
+/**
+ * RoadCDN Quotas
+ *
+ * Usage metering and limits per tenant and per prefix:
+ * - Every R2 write and delete is metered into a SQLite-backed Durable Object per
+ *   tenant, which indexes object sizes so any prefix can be totalled
+ * - Egress and transforms per calendar month (UTC) come from the analytics rollups
+ * - Limits are checked at PUT /cdn/*, /uploads, POST /preload and /image/*; usage past a
+ *   quota's warning threshold is reported in `X-Quota-Warning`
+ */
+
+import { Hono, Context, MiddlewareHandler } from 'hono';
+import { AppEnv, Env } from './env';
+import { queryUsage, TrafficUsage } from './analytics';
+import { LOG_PREFIX } from './logs';
+import { Tenant, TenantStore, TENANT_PREFIX, tenantEnv } from './tenants';
+
+export interface QuotaLimits {
+  storageBytes?: number;
+  objects?: number;
+  egressBytes?: number; // per month
+  transforms?: number; // per month
+  warnAt?: number; // share of a limit that triggers warnings, 0.8 by default
+}
+
+export interface PrefixQuota extends QuotaLimits {
+  prefix: string;
+}
+
+export type QuotaMetric = 'storageBytes' | 'objects' | 'egressBytes' | 'transforms';
+
+export interface Quota {
+  scope: 'tenant' | 'prefix';
+  prefix: string; // "" for the tenant's quota
+  limits: QuotaLimits;
+}
+
+export interface QuotaStatus {
+  scope: Quota['scope'];
+  prefix: string;
+  metric: QuotaMetric;
+  limit: number;
+  used: number;
+  requested?: number; // added by the request being checked
+}
+
+export interface QuotaCheck {
+  exceeded: QuotaStatus[];
+  warnings: QuotaStatus[];
+}
+
+export type StorageUsage = {
+  bytes: number;
+  objects: number;
+};
+
+export interface UsageReport {
+  month: string;
+  tenant?: string;
+  storage: StorageUsage & { peakBytes: number; peakObjects: number };
+  egressBytes: number;
+  transforms: number;
+  quotas: (Quota & {
+    usage: Record<QuotaMetric, number>;
+    warnings: QuotaMetric[];
+    exceeded: QuotaMetric[];
+  })[];
+}
+
+interface StorageChange {
+  key: string;
+  size: number | null; // null once deleted
+}
+
+const CONFIG_KEY = 'cdn:quotas';
+
+const METRICS: QuotaMetric[] = ['storageBytes', 'objects', 'egressBytes', 'transforms'];
+const STORAGE_METRICS: QuotaMetric[] = ['storageBytes', 'objects'];
+const TRAFFIC_METRICS: QuotaMetric[] = ['egressBytes', 'transforms'];
+
+const DEFAULT_WARN_AT = 0.8;
+
+const MESSAGES: Record<QuotaMetric, string> = {
+  storageBytes: 'Storage quota exceeded',
+  objects: 'Object quota exceeded',
+  egressBytes: 'Monthly egress quota exceeded',
+  transforms: 'Monthly transform quota exceeded',
+};
+
+// Metered writes are sent to the meters in batches after this delay
+const FLUSH_DELAY = 100;
+
+// How long each isolate may reuse egress and transform counts when enforcing
+const TRAFFIC_CACHE_TTL = 60_000;
+
+// List pages counted per recount request
+const RECOUNT_PAGES = 10;
+
+// Highest code point, closing key ranges in SQLite's byte order
+const KEY_RANGE_END = '\u{10ffff}';
+
+// Month-to-date traffic per tenant and prefix
+const trafficCache = new Map<string, { usage: TrafficUsage; loadedAt: number }>();
+
+/**
+ * Calendar month (UTC) as YYYY-MM
+ */
+export function currentMonth(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+/**
+ * Start and end (exclusive) of a YYYY-MM month, or null when malformed
+ */
+export function monthRange(month: string): { from: number; to: number } | null {
+  const match = month.match(/^(\d{4})-(0[1-9]|1[0-2])$/);
+  if (!match) return null;
+
+  const year = parseInt(match[1]);
+  const index = parseInt(match[2]) - 1;
+  return { from: Date.UTC(year, index, 1), to: Date.UTC(year, index + 1, 1) };
+}
+
+/**
+ * Whether limits are whole, non-negative numbers with a warning share in (0, 1]
+ */
+export function validLimits(limits: QuotaLimits): boolean {
+  return typeof limits === 'object' && limits !== null
+    && METRICS.every(metric => limits[metric] === undefined
+      || (Number.isInteger(limits[metric]) && limits[metric]! >= 0))
+    && (limits.warnAt === undefined
+      || (typeof limits.warnAt === 'number' && limits.warnAt > 0 && limits.warnAt <= 1));
+}
+
+function meter(env: Env, tenant?: string): DurableObjectStub {
+  return env.USAGE.get(env.USAGE.idFromName(tenant ? `tenant:${tenant}` : 'shared'));
+}
+
+/**
+ * Meter and tenant-relative key of a raw R2 key; logs aren't metered
+ */
+function meterKey(key: string): { tenant: string; key: string } | null {
+  if (key.startsWith(LOG_PREFIX)) return null;
+  if (!key.startsWith(TENANT_PREFIX)) return { tenant: '', key };
+
+  const rest = key.slice(TENANT_PREFIX.length);
+  const slash = rest.indexOf('/');
+  return slash > 0 ? { tenant: rest.slice(0, slash), key: rest.slice(slash + 1) } : null;
+}
+
+/**
+ * Bindings whose ASSETS writes and deletes are metered. Applied to the shared
+ * bucket, before tenants are scoped, so every feature's writes are counted.
+ */
+export function meteredEnv(env: Env, ctx: Pick<ExecutionContext, 'waitUntil'>): Env {
+  const bucket = env.ASSETS;
+  let queue: StorageChange[] = [];
+
+  const flush = async () => {
+    await new Promise(resolve => setTimeout(resolve, FLUSH_DELAY));
+    const pending = queue;
+    queue = [];
+
+    const changes = new Map<string, StorageChange[]>();
+    for (const change of pending) {
+      const target = meterKey(change.key);
+      if (!target) continue;
+      changes.set(target.tenant, [...(changes.get(target.tenant) ?? []), { key: target.key, size: change.size }]);
+    }
+
+    await Promise.all([...changes].map(async ([tenant, batch]) => {
+      const response = await meter(env, tenant).fetch('https://usage/record', {
+        method: 'POST',
+        body: JSON.stringify(batch),
+      });
+      if (!response.ok) throw new Error(`Usage meter responded with ${response.status}`);
+    }));
+  };
+
+  const record = (key: string, size: number | null) => {
+    queue.push({ key, size });
+    if (queue.length === 1) ctx.waitUntil(flush());
+  };
+
+  const meteredUpload = (upload: R2MultipartUpload): R2MultipartUpload => ({
+    key: upload.key,
+    uploadId: upload.uploadId,
+    uploadPart: (...args) => upload.uploadPart(...args),
+    abort: () => upload.abort(),
+    complete: async (parts) => {
+      const object = await upload.complete(parts);
+      record(object.key, object.size);
+      return object;
+    },
+  });
+
+  const metered = {
+    head: (key: string) => bucket.head(key),
+    get: (key: string, options?: R2GetOptions) => bucket.get(key, options),
+    put: async (key: string, value: Parameters<R2Bucket['put']>[1], options?: R2PutOptions) => {
+      const object = await bucket.put(key, value, options);
+      if (object) record(object.key, object.size);
+      return object;
+    },
+    delete: async (keys: string | string[]) => {
+      await bucket.delete(keys);
+      for (const key of Array.isArray(keys) ? keys : [keys]) record(key, null);
+    },
+    list: (options?: R2ListOptions) => bucket.list(options),
+    createMultipartUpload: async (key: string, options?: R2MultipartOptions) =>
+      meteredUpload(await bucket.createMultipartUpload(key, options)),
+    resumeMultipartUpload: (key: string, uploadId: string) =>
+      meteredUpload(bucket.resumeMultipartUpload(key, uploadId)),
+  } as unknown as R2Bucket;
+
+  return { ...env, ASSETS: metered };
+}
+
+/**
+ * Meter the request's R2 writes. Registered before tenancy.
+ */
+export function metering(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    c.env = meteredEnv(c.env, c.executionCtx);
+    await next();
+  };
+}
+
+function share(limits: QuotaLimits): number {
+  return limits.warnAt ?? DEFAULT_WARN_AT;
+}
+
+/**
+ * Quotas and usage of one tenant, or of the shared host
+ */
+export class QuotaManager {
+  private env: Env;
+  private tenant?: Tenant;
+
+  constructor(env: Env, tenant?: Tenant) {
+    this.env = env;
+    this.tenant = tenant;
+  }
+
+  /**
+   * Prefix quotas, set by the tenant (or the shared host) itself
+   */
+  async getPrefixQuotas(): Promise<PrefixQuota[]> {
+    const config = await this.env.CACHE.get<{ quotas: PrefixQuota[] }>(CONFIG_KEY, { type: 'json', cacheTtl: 60 });
+    return config?.quotas ?? [];
+  }
+
+  async setPrefixQuotas(quotas: PrefixQuota[]): Promise<void> {
+    await this.env.CACHE.put(CONFIG_KEY, JSON.stringify({ quotas }));
+  }
+
+  /**
+   * Quotas covering a path (every quota when no path is given): the tenant's
+   * own, set by the operator, and matching prefix quotas
+   */
+  async quotas(path?: string): Promise<Quota[]> {
+    const quotas: Quota[] = [];
+
+    if (this.tenant?.config.quota) {
+      quotas.push({ scope: 'tenant', prefix: '', limits: this.tenant.config.quota });
+    }
+    for (const { prefix, ...limits } of await this.getPrefixQuotas()) {
+      if (path === undefined || path.startsWith(prefix)) quotas.push({ scope: 'prefix', prefix, limits });
+    }
+
+    return quotas;
+  }
+
+  /**
+   * Stored bytes and objects under each prefix, and the current size of `key`
+   */
+  async storage(prefixes: string[], key?: string): Promise<{ usage: Record<string, StorageUsage>; existing: number | null }> {
+    const response = await meter(this.env, this.tenant?.id).fetch('https://usage/storage', {
+      method: 'POST',
+      body: JSON.stringify({ prefixes, key }),
+    });
+    if (!response.ok) throw new Error(`Usage meter responded with ${response.status}`);
+    return await response.json<{ usage: Record<string, StorageUsage>; existing: number | null }>();
+  }
+
+  /**
+   * Egress and transforms under a prefix in a month. Month-to-date counts may be
+   * reused by the isolate for a minute.
+   */
+  async traffic(prefix: string, month: string, cached = false): Promise<TrafficUsage> {
+    const cacheKey = `${this.tenant?.id ?? ''}|${prefix}|${month}`;
+    const entry = trafficCache.get(cacheKey);
+    if (cached && entry && Date.now() - entry.loadedAt < TRAFFIC_CACHE_TTL) return entry.usage;
+
+    const range = monthRange(month)!;
+    const usage = await queryUsage(this.env, { ...range, tenant: this.tenant?.id ?? '', prefix });
+    trafficCache.set(cacheKey, { usage, loadedAt: Date.now() });
+    return usage;
+  }
+
+  /**
+   * Check storing `size` bytes at `path`, replacing whatever is there
+   */
+  async checkStorage(path: string, size: number): Promise<QuotaCheck> {
+    const quotas = (await this.quotas(path)).filter(q => STORAGE_METRICS.some(metric => q.limits[metric] !== undefined));
+    if (quotas.length === 0) return { exceeded: [], warnings: [] };
+
+    const { usage, existing } = await this.storage([...new Set(quotas.map(q => q.prefix))], path);
+
+    return evaluate(quotas, quota => ({
+      storageBytes: { used: usage[quota.prefix].bytes, requested: size - (existing ?? 0) },
+      objects: { used: usage[quota.prefix].objects, requested: existing === null ? 1 : 0 },
+    }));
+  }
+
+  /**
+   * Check serving `path` against this month's egress and transform limits.
+   * Traffic is counted after the fact, so a limit is exceeded once it is reached.
+   */
+  async checkTraffic(path: string): Promise<QuotaCheck> {
+    const quotas = (await this.quotas(path)).filter(q => TRAFFIC_METRICS.some(metric => q.limits[metric] !== undefined));
+    if (quotas.length === 0) return { exceeded: [], warnings: [] };
+
+    const month = currentMonth();
+    const usage = new Map<string, TrafficUsage>();
+    for (const prefix of new Set(quotas.map(q => q.prefix))) {
+      usage.set(prefix, await this.traffic(prefix, month, true));
+    }
+
+    return evaluate(quotas, quota => ({
+      egressBytes: { used: usage.get(quota.prefix)!.egressBytes, requested: 1 },
+      transforms: { used: usage.get(quota.prefix)!.transforms, requested: 1 },
+    }));
+  }
+
+  /**
+   * Usage for a month against every quota. Storage is the month's peak; per-prefix
+   * storage is current.
+   */
+  async report(month: string): Promise<UsageReport> {
+    const quotas = await this.quotas();
+
+    const response = await meter(this.env, this.tenant?.id).fetch('https://usage/report', {
+      method: 'POST',
+      body: JSON.stringify({ month, prefixes: [...new Set(['', ...quotas.map(q => q.prefix)])] }),
+    });
+    if (!response.ok) throw new Error(`Usage meter responded with ${response.status}`);
+    const storage = await response.json<{ usage: Record<string, StorageUsage>; peakBytes: number; peakObjects: number }>();
+
+    const traffic = new Map<string, TrafficUsage>();
+    for (const prefix of new Set(['', ...quotas.map(q => q.prefix)])) {
+      traffic.set(prefix, await this.traffic(prefix, month));
+    }
+
+    // Past months are judged by their peak
+    const current = month === currentMonth();
+    const usageOf = (prefix: string): Record<QuotaMetric, number> => ({
+      storageBytes: prefix || current ? storage.usage[prefix].bytes : storage.peakBytes,
+      objects: prefix || current ? storage.usage[prefix].objects : storage.peakObjects,
+      egressBytes: traffic.get(prefix)!.egressBytes,
+      transforms: traffic.get(prefix)!.transforms,
+    });
+
+    return {
+      month,
+      tenant: this.tenant?.id,
+      storage: { ...storage.usage[''], peakBytes: storage.peakBytes, peakObjects: storage.peakObjects },
+      egressBytes: traffic.get('')!.egressBytes,
+      transforms: traffic.get('')!.transforms,
+      quotas: quotas.map(quota => {
+        const usage = usageOf(quota.prefix);
+        const limited = METRICS.filter(metric => quota.limits[metric] !== undefined);
+        return {
+          ...quota,
+          usage,
+          warnings: limited.filter(metric => usage[metric] >= quota.limits[metric]! * share(quota.limits)),
+          exceeded: limited.filter(metric => usage[metric] > quota.limits[metric]!
+            || (TRAFFIC_METRICS.includes(metric) && usage[metric] >= quota.limits[metric]!)),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Quotas a request would exceed or come close to
+ */
+function evaluate(
+  quotas: Quota[],
+  measure: (quota: Quota) => Partial<Record<QuotaMetric, { used: number; requested: number }>>,
+): QuotaCheck {
+  const check: QuotaCheck = { exceeded: [], warnings: [] };
+
+  for (const quota of quotas) {
+    for (const [metric, { used, requested }] of Object.entries(measure(quota)) as [QuotaMetric, { used: number; requested: number }][]) {
+      const limit = quota.limits[metric];
+      if (limit === undefined) continue;
+
+      const status: QuotaStatus = { scope: quota.scope, prefix: quota.prefix, metric, limit, used, requested };
+      if (used + requested > limit) {
+        check.exceeded.push(status);
+      } else if (used + requested >= limit * share(quota.limits)) {
+        check.warnings.push(status);
+      }
+    }
+  }
+
+  return check;
+}
+
+/**
+ * `X-Quota-Warning` value: metric=percent, with the prefix for prefix quotas
+ */
+export function quotaWarningHeader(warnings: QuotaStatus[]): string | undefined {
+  if (warnings.length === 0) return undefined;
+  return warnings.map(w => {
+    const percent = w.limit ? Math.floor(((w.used + (w.requested ?? 0)) / w.limit) * 100) : 100;
+    return w.scope === 'prefix' ? `${w.metric}=${percent}%;prefix=${w.prefix}` : `${w.metric}=${percent}%`;
+  }).join(', ');
+}
+
+/**
+ * Reject a request over quota: 413 for storage, 429 until next month for traffic
+ */
+export function quotaExceeded(c: Context<AppEnv>, status: QuotaStatus): Response {
+  if (STORAGE_METRICS.includes(status.metric)) {
+    return c.json({ error: MESSAGES[status.metric], quota: status }, 413);
+  }
+
+  const now = new Date();
+  const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  c.header('Retry-After', String(Math.ceil((nextMonth - now.getTime()) / 1000)));
+  return c.json({ error: MESSAGES[status.metric], quota: status, resetsAt: new Date(nextMonth).toISOString() }, 429);
+}
+
+/**
+ * Durable Object metering one tenant's storage: the size of every object, running
+ * totals and each day's closing and peak totals
+ */
+export class UsageMeter implements DurableObject {
+  private sql: SqlStorage;
+
+  constructor(state: DurableObjectState) {
+    this.sql = state.storage.sql;
+
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS objects (
+        key TEXT PRIMARY KEY,
+        size INTEGER NOT NULL
+      )
+    `);
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS totals (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        bytes INTEGER NOT NULL,
+        objects INTEGER NOT NULL
+      )
+    `);
+    this.sql.exec('INSERT OR IGNORE INTO totals VALUES (1, 0, 0)');
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS days (
+        day TEXT PRIMARY KEY,
+        bytes INTEGER NOT NULL,
+        objects INTEGER NOT NULL,
+        peak_bytes INTEGER NOT NULL,
+        peak_objects INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/record') {
+      this.record(await request.json<StorageChange[]>());
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/reset') {
+      this.sql.exec('DELETE FROM objects');
+      this.sql.exec('UPDATE totals SET bytes = 0, objects = 0');
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/storage') {
+      const { prefixes, key } = await request.json<{ prefixes: string[]; key?: string }>();
+      const existing = key !== undefined
+        ? this.sql.exec<{ size: number }>('SELECT size FROM objects WHERE key = ?', key).toArray()[0]?.size ?? null
+        : null;
+      return Response.json({ usage: this.usage(prefixes), existing });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/report') {
+      const { month, prefixes } = await request.json<{ month: string; prefixes: string[] }>();
+      return Response.json({ usage: this.usage(prefixes), ...this.peak(month) });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  private record(changes: StorageChange[]): void {
+    for (const change of changes) {
+      const previous = this.sql.exec<{ size: number }>('SELECT size FROM objects WHERE key = ?', change.key).toArray()[0];
+
+      if (change.size === null) {
+        if (!previous) continue;
+        this.sql.exec('DELETE FROM objects WHERE key = ?', change.key);
+        this.sql.exec('UPDATE totals SET bytes = bytes - ?, objects = objects - 1', previous.size);
+      } else {
+        this.sql.exec(
+          'INSERT INTO objects VALUES (?, ?) ON CONFLICT DO UPDATE SET size = excluded.size',
+          change.key,
+          change.size,
+        );
+        this.sql.exec(
+          'UPDATE totals SET bytes = bytes + ?, objects = objects + ?',
+          change.size - (previous?.size ?? 0),
+          previous ? 0 : 1,
+        );
+      }
+    }
+
+    const totals = this.sql.exec<StorageUsage>('SELECT bytes, objects FROM totals').one();
+    this.sql.exec(
+      `INSERT INTO days VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT DO UPDATE SET
+         bytes = excluded.bytes,
+         objects = excluded.objects,
+         peak_bytes = MAX(peak_bytes, excluded.bytes),
+         peak_objects = MAX(peak_objects, excluded.objects)`,
+      new Date().toISOString().slice(0, 10),
+      totals.bytes,
+      totals.objects,
+      totals.bytes,
+      totals.objects,
+    );
+  }
+
+  private usage(prefixes: string[]): Record<string, StorageUsage> {
+    return Object.fromEntries(prefixes.map(prefix => [
+      prefix,
+      prefix
+        ? this.sql.exec<StorageUsage>(
+          'SELECT COALESCE(SUM(size), 0) AS bytes, COUNT(*) AS objects FROM objects WHERE key >= ? AND key < ?',
+          prefix,
+          prefix + KEY_RANGE_END,
+        ).one()
+        : this.sql.exec<StorageUsage>('SELECT bytes, objects FROM totals').one(),
+    ]));
+  }
+
+  /**
+   * Peak totals in a month, counting what was stored when it began
+   */
+  private peak(month: string): { peakBytes: number; peakObjects: number } {
+    const within = this.sql.exec<{ bytes: number | null; objects: number | null }>(
+      'SELECT MAX(peak_bytes) AS bytes, MAX(peak_objects) AS objects FROM days WHERE substr(day, 1, 7) = ?',
+      month,
+    ).one();
+    const before = this.sql.exec<StorageUsage>(
+      'SELECT bytes, objects FROM days WHERE day < ? ORDER BY day DESC LIMIT 1',
+      `${month}-01`,
+    ).toArray()[0];
+
+    return {
+      peakBytes: Math.max(within.bytes ?? 0, before?.bytes ?? 0),
+      peakObjects: Math.max(within.objects ?? 0, before?.objects ?? 0),
+    };
+  }
+}
+
+/**
+ * Quota and usage routes. They rely on the app-wide requireScope('admin').
+ */
+export function createQuotaRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // The tenant's own quota is set by the operator, in its config
+  app.get('/admin/quotas', async (c) => {
+    const quotas = new QuotaManager(c.env, c.get('tenant'));
+    return c.json({ tenant: c.get('tenant')?.config.quota ?? null, quotas: await quotas.getPrefixQuotas() });
+  });
+
+  app.put('/admin/quotas', async (c) => {
+    const body = await c.req.json<{ quotas: PrefixQuota[] }>();
+
+    if (!Array.isArray(body.quotas)
+      || body.quotas.some(q => typeof q?.prefix !== 'string' || !validLimits(q))
+      || new Set(body.quotas.map(q => q.prefix)).size !== body.quotas.length) {
+      return c.json({
+        error: 'quotas must be a list of { prefix, storageBytes, objects, egressBytes, transforms, warnAt } '
+          + 'with whole-number limits, warnAt between 0 and 1, and one entry per prefix',
+      }, 400);
+    }
+
+    await new QuotaManager(c.env, c.get('tenant')).setPrefixQuotas(body.quotas);
+    return c.json({ quotas: body.quotas });
+  });
+
+  // Monthly usage report; the shared host may pick a tenant
+  app.get('/admin/usage', async (c) => {
+    const month = c.req.query('month') || currentMonth();
+    if (!monthRange(month)) {
+      return c.json({ error: 'month must be YYYY-MM' }, 400);
+    }
+
+    let env = c.env;
+    let tenant = c.get('tenant');
+    const tenantId = c.req.query('tenant');
+    if (!tenant && tenantId) {
+      tenant = (await new TenantStore(c.env.CACHE).get(tenantId)) ?? undefined;
+      if (!tenant) {
+        return c.json({ error: 'Tenant not found' }, 404);
+      }
+      env = tenantEnv(c.env, tenant);
+    }
+
+    return c.json(await new QuotaManager(env, tenant).report(month));
+  });
+
+  // Rebuild the storage meter from R2, e.g. for data stored before metering.
+  // Call again with the returned cursor until it is null.
+  app.post('/admin/usage/recount', async (c) => {
+    const tenant = c.get('tenant');
+    const stub = meter(c.env, tenant?.id);
+    let cursor = c.req.query('cursor') || undefined;
+    let counted = 0;
+
+    if (!cursor) {
+      await stub.fetch('https://usage/reset', { method: 'POST' });
+    }
+
+    for (let page = 0; page < RECOUNT_PAGES; page++) {
+      const list = await c.env.ASSETS.list({ cursor });
+
+      // The shared host doesn't own tenant data or logs
+      const changes: StorageChange[] = list.objects
+        .filter(object => tenant || meterKey(object.key)?.tenant === '')
+        .map(object => ({ key: object.key, size: object.size }));
+
+      if (changes.length > 0) {
+        const response = await stub.fetch('https://usage/record', { method: 'POST', body: JSON.stringify(changes) });
+        if (!response.ok) throw new Error(`Usage meter responded with ${response.status}`);
+      }
+      counted += changes.length;
+
+      cursor = list.truncated ? list.cursor : undefined;
+      if (!cursor) break;
+    }
+
+    return c.json({ counted, cursor: cursor ?? null });
+  });
+
+  return app;
+}
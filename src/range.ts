@@ -0,0 +1,273 @@
+/**
+ * RoadCDN Range Requests
+ *
+ * Features:
+ * - Range header parsing (RFC 9110 byte ranges)
+ * - If-Range validation
+ * - 206 Partial Content and multipart/byteranges responses
+ * - Streamed bodies from R2 or in-memory bytes
+ */
+
+import { strongMatch } from './conditional';
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Anything a range response can be built from
+ */
+export interface RangeSource {
+  size: number;
+  etag: string;
+  lastModified?: Date;
+  read(range?: ByteRange): Promise<ReadableStream | ArrayBuffer | null>;
+}
+
+// More ranges than this and we serve the full representation instead
+const MAX_RANGES = 16;
+
+/**
+ * Parse a Range header against a representation size.
+ *
+ * Returns null when the header should be ignored (malformed, unknown unit,
+ * too many ranges) and an empty array when no range is satisfiable.
+ */
+export function parseRange(header: string, size: number): ByteRange[] | null {
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map(s => s.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (!parts[1] && !parts[2])) return null;
+
+    let start: number;
+    let end: number;
+
+    if (!parts[1]) {
+      // Suffix range: last N bytes
+      const suffix = parseInt(parts[2]);
+      if (suffix === 0) continue;
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = parseInt(parts[1]);
+      end = parts[2] ? parseInt(parts[2]) : size - 1;
+      if (end < start) return null;
+      if (start >= size) continue;
+      end = Math.min(end, size - 1);
+    }
+
+    if (size === 0) continue;
+    ranges.push({ offset: start, length: end - start + 1 });
+  }
+
+  return coalesceRanges(ranges);
+}
+
+/**
+ * Merge overlapping or adjacent ranges, keeping request order otherwise
+ */
+function coalesceRanges(ranges: ByteRange[]): ByteRange[] {
+  if (ranges.length < 2) return ranges;
+
+  const sorted = [...ranges].sort((a, b) => a.offset - b.offset);
+  const merged: ByteRange[] = [sorted[0]];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.offset <= last.offset + last.length) {
+      const end = Math.max(last.offset + last.length, range.offset + range.length);
+      last.length = end - last.offset;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Check If-Range against the current validators.
+ * Entity tags must match strongly; dates must match Last-Modified exactly.
+ */
+export function ifRangeMatches(header: string, etag: string, lastModified?: Date): boolean {
+  const value = header.trim();
+
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return strongMatch(value, etag);
+  }
+
+  if (!lastModified) return false;
+  const date = Date.parse(value);
+  if (isNaN(date)) return false;
+
+  return Math.floor(date / 1000) === Math.floor(lastModified.getTime() / 1000);
+}
+
+/**
+ * Stored variants are already encoded; stop the runtime from encoding again
+ */
+function responseInit(status: number, headers: Headers): ResponseInit {
+  return {
+    status,
+    headers,
+    encodeBody: headers.has('Content-Encoding') ? 'manual' : 'automatic',
+  };
+}
+
+function contentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.offset}-${range.offset + range.length - 1}/${size}`;
+}
+
+/**
+ * Build a 200, 206 or 416 response for a request, honouring Range and If-Range.
+ * `headers` carries the representation headers (Content-Type, ETag, ...).
+ */
+export async function serveRange(
+  request: Request,
+  source: RangeSource,
+  headers: Headers,
+): Promise<Response> {
+  headers.set('Accept-Ranges', 'bytes');
+
+  const rangeHeader = request.headers.get('Range');
+  const ifRange = request.headers.get('If-Range');
+
+  const honourRange = rangeHeader
+    && request.method === 'GET'
+    && (!ifRange || ifRangeMatches(ifRange, source.etag, source.lastModified));
+
+  const ranges = honourRange ? parseRange(rangeHeader, source.size) : null;
+
+  if (!ranges) {
+    headers.set('Content-Length', String(source.size));
+    return new Response(await source.read(), responseInit(200, headers));
+  }
+
+  if (ranges.length === 0) {
+    headers.set('Content-Range', `bytes */${source.size}`);
+    headers.delete('Content-Length');
+    return new Response(null, responseInit(416, headers));
+  }
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    headers.set('Content-Range', contentRange(range, source.size));
+    headers.set('Content-Length', String(range.length));
+    return new Response(await source.read(range), responseInit(206, headers));
+  }
+
+  const contentType = headers.get('Content-Type') || 'application/octet-stream';
+  const boundary = `roadcdn-${crypto.randomUUID()}`;
+  const body = multipartBody(source, ranges, contentType, boundary);
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', String(body.length));
+
+  return new Response(body.stream, responseInit(206, headers));
+}
+
+/**
+ * Stream a multipart/byteranges body, reading each part from the source lazily
+ */
+function multipartBody(
+  source: RangeSource,
+  ranges: ByteRange[],
+  contentType: string,
+  boundary: string,
+): { stream: ReadableStream; length: number } {
+  const encoder = new TextEncoder();
+
+  const partHeaders = ranges.map(range => encoder.encode(
+    `--${boundary}\r\n`
+    + `Content-Type: ${contentType}\r\n`
+    + `Content-Range: ${contentRange(range, source.size)}\r\n\r\n`,
+  ));
+  const crlf = encoder.encode('\r\n');
+  const closing = encoder.encode(`--${boundary}--\r\n`);
+
+  const length = ranges.reduce(
+    (sum, range, i) => sum + partHeaders[i].byteLength + range.length + crlf.byteLength,
+    closing.byteLength,
+  );
+
+  const { readable, writable } = new FixedLengthStream(length);
+  const writer = writable.getWriter();
+
+  (async () => {
+    try {
+      for (let i = 0; i < ranges.length; i++) {
+        await writer.write(partHeaders[i]);
+
+        const body = await source.read(ranges[i]);
+        if (body instanceof ReadableStream) {
+          const reader = body.getReader();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            await writer.write(value);
+          }
+        } else if (body) {
+          await writer.write(new Uint8Array(body));
+        }
+
+        await writer.write(crlf);
+      }
+
+      await writer.write(closing);
+      await writer.close();
+    } catch (e) {
+      await writer.abort(e);
+    }
+  })();
+
+  return { stream: readable, length };
+}
+
+/**
+ * Range source backed by bytes already in memory
+ */
+export function bytesSource(bytes: ArrayBuffer, etag: string, lastModified?: Date): RangeSource {
+  return {
+    size: bytes.byteLength,
+    etag,
+    lastModified,
+    async read(range) {
+      if (!range) return bytes;
+      return bytes.slice(range.offset, range.offset + range.length);
+    },
+  };
+}
+
+/**
+ * Range source backed by an R2 object. `body` is used for the full read when
+ * the object was already fetched; ranges are always fetched from R2 directly.
+ */
+export function r2Source(bucket: R2Bucket, object: R2Object, body?: ReadableStream): RangeSource {
+  return {
+    size: object.size,
+    etag: object.httpEtag,
+    lastModified: object.uploaded,
+    async read(range) {
+      if (!range && body) return body;
+
+      const result = await bucket.get(object.key, {
+        range: range ? { offset: range.offset, length: range.length } : undefined,
+        onlyIf: { etagMatches: object.etag },
+      });
+
+      if (!result || !('body' in result)) {
+        throw new Error(`Object changed while reading: ${object.key}`);
+      }
+
+      return result.body;
+    },
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * RoadCDN Reserved Paths
+ *
+ * R2 key prefixes RoadCDN uses for its own data. They are never served,
+ * written or listed as assets.
+ */
+
+import { LOG_PREFIX } from './logs';
+import { VERSION_PREFIX } from './versions';
+import { DEPLOYMENT_PREFIX } from './deployments';
+import { TENANT_PREFIX } from './tenants';
+
+/**
+ * Whether an asset path falls under a reserved prefix
+ */
+export function isReservedPath(path: string): boolean {
+  // Listed here rather than at load time: some of these modules import this one in turn
+  return [LOG_PREFIX, VERSION_PREFIX, DEPLOYMENT_PREFIX, TENANT_PREFIX].some(prefix => path.startsWith(prefix));
+}
@@ -0,0 +1,329 @@
+/**
+ * RoadCDN Cache Policy Rules
+ *
+ * Ordered rules stored in KV, first match wins:
+ * - Match on glob path, prefix and/or content type
+ * - Edge TTL and stale windows
+ * - Browser Cache-Control, immutable, no-store
+ * - Custom response headers
+ */
+
+import { Hono } from 'hono';
+import { AppEnv } from './env';
+import { Freshness, formatCacheControl, defaultFreshness } from './cache-control';
+
+export interface RuleMatch {
+  glob?: string; // e.g. 'static/**/*.js'
+  prefix?: string; // e.g. 'downloads/'
+  contentType?: string; // e.g. 'image/*', 'text/css'
+}
+
+export interface CacheRule {
+  id: string;
+  name?: string;
+  match: RuleMatch;
+  edgeTtl?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  browserTtl?: number;
+  cacheControl?: string; // Sent verbatim, overrides browserTtl/immutable
+  immutable?: boolean;
+  noStore?: boolean;
+  headers?: Record<string, string>;
+}
+
+export interface ResolvedPolicy {
+  ruleId: string | null;
+  noStore: boolean;
+  freshness: Freshness;
+  cacheControl: string;
+  headers: Record<string, string>;
+}
+
+const RULES_KEY = 'cdn:rules';
+
+// How long each isolate may reuse the rules it read from KV
+const RULES_CACHE_TTL = 60;
+
+/**
+ * Convert a path glob to a RegExp.
+ * `*` matches within a segment, `**` across segments, `?` one character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' also matches zero directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Match a content type against a pattern such as 'image/*'
+ */
+function matchContentType(pattern: string, contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  const expected = pattern.toLowerCase();
+
+  if (expected.endsWith('/*')) {
+    return type.startsWith(expected.slice(0, -1));
+  }
+
+  return type === expected;
+}
+
+/**
+ * Whether a rule applies. Every condition given must match.
+ */
+export function ruleMatches(rule: CacheRule, path: string, contentType?: string): boolean {
+  const { glob, prefix, contentType: typePattern } = rule.match;
+
+  if (prefix !== undefined && !path.startsWith(prefix)) return false;
+  if (glob !== undefined && !globToRegExp(glob).test(path)) return false;
+  if (typePattern !== undefined && (!contentType || !matchContentType(typePattern, contentType))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether a header name is a valid HTTP token
+ */
+export function isHeaderName(name: string): boolean {
+  return /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(name);
+}
+
+/**
+ * Whether a header value can be sent: no CR, LF or other control characters but tab
+ */
+export function isHeaderValue(value: unknown): value is string {
+  return typeof value === 'string' && !/[\x00-\x08\x0a-\x1f\x7f]/.test(value);
+}
+
+/**
+ * Validate a rule
+ */
+export function validateRule(rule: Partial<CacheRule>): string[] {
+  const errors: string[] = [];
+
+  if (!rule.match || (!rule.match.glob && rule.match.prefix === undefined && !rule.match.contentType)) {
+    errors.push('Rule must match on at least one of glob, prefix or contentType');
+  }
+
+  for (const field of ['edgeTtl', 'staleWhileRevalidate', 'staleIfError', 'browserTtl'] as const) {
+    const value = rule[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`${field} must be a non-negative integer`);
+    }
+  }
+
+  if (rule.noStore && rule.immutable) {
+    errors.push('Rule cannot be both noStore and immutable');
+  }
+
+  if (rule.cacheControl !== undefined && !isHeaderValue(rule.cacheControl)) {
+    errors.push('cacheControl must be a header value without control characters');
+  }
+
+  if (rule.headers) {
+    for (const [name, value] of Object.entries(rule.headers)) {
+      if (!isHeaderName(name) || !isHeaderValue(value)) {
+        errors.push(`Invalid header: ${name}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolves cache policy for a path from the ordered rule list
+ */
+export class CachePolicyEngine {
+  private kv: KVNamespace;
+  private rules: CacheRule[] = [];
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Load rules from KV. Edits read uncached, so they build on the latest save.
+   */
+  async loadRules(cached = true): Promise<CacheRule[]> {
+    const data = await this.kv.get<CacheRule[]>(RULES_KEY, {
+      type: 'json',
+      cacheTtl: cached ? RULES_CACHE_TTL : undefined,
+    });
+    this.rules = data || [];
+    return this.rules;
+  }
+
+  /**
+   * Save rules to KV
+   */
+  async saveRules(rules: CacheRule[]): Promise<void> {
+    this.rules = rules;
+    await this.kv.put(RULES_KEY, JSON.stringify(rules));
+  }
+
+  getRules(): CacheRule[] {
+    return this.rules;
+  }
+
+  /**
+   * First rule matching the path and content type
+   */
+  findRule(path: string, contentType?: string): CacheRule | undefined {
+    return this.rules.find(rule => ruleMatches(rule, path, contentType));
+  }
+
+  /**
+   * Resolve the policy for a path. `base` is the freshness the asset would get
+   * without rules; `maxAge` the default browser TTL.
+   */
+  resolve(path: string, contentType: string | undefined, base: Freshness, maxAge: number): ResolvedPolicy {
+    const rule = this.findRule(path, contentType);
+
+    const freshness: Freshness = {
+      ttl: rule?.edgeTtl ?? base.ttl,
+      staleWhileRevalidate: rule?.staleWhileRevalidate ?? base.staleWhileRevalidate,
+      staleIfError: rule?.staleIfError ?? base.staleIfError,
+    };
+
+    let cacheControl: string;
+    if (rule?.noStore) {
+      cacheControl = 'no-store';
+    } else if (rule?.cacheControl) {
+      cacheControl = rule.cacheControl;
+    } else {
+      cacheControl = formatCacheControl({
+        public: true,
+        maxAge: rule?.browserTtl ?? maxAge,
+        immutable: rule?.immutable,
+        staleWhileRevalidate: rule?.immutable ? undefined : freshness.staleWhileRevalidate,
+        staleIfError: rule?.immutable ? undefined : freshness.staleIfError,
+      });
+    }
+
+    return {
+      ruleId: rule?.id ?? null,
+      noStore: rule?.noStore ?? false,
+      freshness,
+      cacheControl,
+      headers: rule?.headers ?? {},
+    };
+  }
+}
+
+/**
+ * Rules admin API
+ */
+export function createRulesRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // List rules in evaluation order
+  app.get('/admin/rules', async (c) => {
+    const engine = new CachePolicyEngine(c.env.CACHE);
+    return c.json({ rules: await engine.loadRules() });
+  });
+
+  // Replace the whole rule list
+  app.put('/admin/rules', async (c) => {
+    const body = await c.req.json<{ rules: CacheRule[] }>();
+
+    if (!Array.isArray(body.rules)) {
+      return c.json({ error: 'rules array required' }, 400);
+    }
+
+    const rules = body.rules.map(rule => ({ ...rule, id: rule.id || crypto.randomUUID() }));
+    const errors = rules.flatMap(rule => validateRule(rule).map(e => `${rule.id}: ${e}`));
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid rules', details: errors }, 400);
+    }
+
+    if (new Set(rules.map(r => r.id)).size !== rules.length) {
+      return c.json({ error: 'Rule ids must be unique' }, 400);
+    }
+
+    await new CachePolicyEngine(c.env.CACHE).saveRules(rules);
+    return c.json({ rules });
+  });
+
+  // Add a rule, at the end or at `position`
+  app.post('/admin/rules', async (c) => {
+    const body = await c.req.json<Omit<CacheRule, 'id'> & { position?: number }>();
+    const { position, ...fields } = body;
+    const rule: CacheRule = { ...fields, id: crypto.randomUUID() };
+
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid rule', details: errors }, 400);
+    }
+
+    const engine = new CachePolicyEngine(c.env.CACHE);
+    const rules = [...await engine.loadRules(false)];
+    rules.splice(position ?? rules.length, 0, rule);
+    await engine.saveRules(rules);
+
+    return c.json({ rule, position: rules.indexOf(rule) }, 201);
+  });
+
+  // Remove a rule
+  app.delete('/admin/rules/:id', async (c) => {
+    const id = c.req.param('id');
+    const engine = new CachePolicyEngine(c.env.CACHE);
+    const rules = await engine.loadRules(false);
+    const remaining = rules.filter(rule => rule.id !== id);
+
+    if (remaining.length === rules.length) {
+      return c.json({ error: 'Rule not found' }, 404);
+    }
+
+    await engine.saveRules(remaining);
+    return c.json({ deleted: true, id });
+  });
+
+  // Show which rule a path resolves to
+  app.get('/admin/rules/test', async (c) => {
+    const path = c.req.query('path');
+    const contentType = c.req.query('contentType');
+
+    if (!path) {
+      return c.json({ error: 'path query parameter required' }, 400);
+    }
+
+    const engine = new CachePolicyEngine(c.env.CACHE);
+    await engine.loadRules();
+
+    return c.json({
+      path,
+      contentType: contentType ?? null,
+      rule: engine.findRule(path, contentType) ?? null,
+      policy: engine.resolve(path, contentType, defaultFreshness(c.env), parseInt(c.env.MAX_AGE)),
+    });
+  });
+
+  return app;
+}
@@ -0,0 +1,361 @@
+/**
+ * RoadCDN Signed URLs
+ *
+ * Features:
+ * - Private assets, flagged per prefix (KV) or per asset (upload metadata)
+ * - HMAC-SHA256 signed URLs with expiry
+ * - Optional client IP, country and method binding
+ * - Rotatable signing keys; retired keys stop verifying, older active keys keep working
+ */
+
+import { Hono, Context } from 'hono';
+import { AppEnv } from './env';
+import { requireScope } from './auth';
+
+export type SignedRoute = 'cdn' | 'image';
+
+interface SigningKey {
+  id: string;
+  secret: string; // base64
+  createdAt: number;
+  retiredAt?: number;
+}
+
+interface PrivacyConfig {
+  prefixes: string[];
+}
+
+export interface SignOptions {
+  route: SignedRoute;
+  path: string;
+  expiresAt: number; // unix seconds
+  ip?: string;
+  country?: string;
+  methods?: string[];
+}
+
+/**
+ * Why a signed request was rejected
+ */
+export type SignatureFailure =
+  | 'signature_required'
+  | 'malformed_signature'
+  | 'signature_expired'
+  | 'unknown_signing_key'
+  | 'invalid_signature'
+  | 'ip_mismatch'
+  | 'country_mismatch'
+  | 'method_not_allowed';
+
+const FAILURE_MESSAGES: Record<SignatureFailure, string> = {
+  signature_required: 'This asset is private and requires a signed URL',
+  malformed_signature: 'Signed URL parameters are malformed',
+  signature_expired: 'Signed URL has expired',
+  unknown_signing_key: 'Signed URL was issued with an unknown or retired key',
+  invalid_signature: 'Signed URL signature does not match',
+  ip_mismatch: 'Signed URL is bound to a different client IP',
+  country_mismatch: 'Signed URL is bound to a different country',
+  method_not_allowed: 'Signed URL does not allow this method',
+};
+
+const KEYS_KEY = 'signing:keys';
+const PRIVACY_KEY = 'cdn:private';
+
+// How long each isolate may reuse signing keys and privacy config read from KV
+const CONFIG_CACHE_TTL = 60;
+
+const DEFAULT_EXPIRY = 3600; // 1 hour
+const MAX_EXPIRY = 86400 * 7; // 7 days
+
+const DEFAULT_METHODS = ['GET', 'HEAD'];
+
+function base64url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Canonical string covered by the signature
+ */
+function stringToSign(options: SignOptions): string {
+  return [
+    `/${options.route}/${options.path}`,
+    options.expiresAt,
+    options.ip ?? '',
+    options.country ?? '',
+    (options.methods ?? DEFAULT_METHODS).join(','),
+  ].join('\n');
+}
+
+async function hmac(secret: string, message: string): Promise<string> {
+  const raw = Uint8Array.from(atob(secret), ch => ch.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return base64url(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+}
+
+/**
+ * Compare without short-circuiting on the first differing character
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Signing keys, private prefixes and URL signing/verification
+ */
+export class UrlSigner {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * All keys, newest first. Changes read the list uncached, so a list an isolate
+   * kept is never written back over keys added since.
+   */
+  async listKeys(cached = true): Promise<SigningKey[]> {
+    const keys = await this.kv.get<SigningKey[]>(KEYS_KEY, { type: 'json', cacheTtl: cached ? CONFIG_CACHE_TTL : undefined });
+    return (keys || []).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Add a new signing key; it signs from now on while older keys keep verifying
+   */
+  async rotate(): Promise<SigningKey> {
+    const keys = await this.listKeys(false);
+    const key: SigningKey = {
+      id: crypto.randomUUID().slice(0, 8),
+      secret: btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))),
+      createdAt: Date.now(),
+    };
+
+    await this.kv.put(KEYS_KEY, JSON.stringify([key, ...keys]));
+    return key;
+  }
+
+  /**
+   * Stop a key from verifying. URLs signed with it fail from then on.
+   */
+  async retire(id: string): Promise<SigningKey | null> {
+    const keys = await this.listKeys(false);
+    const key = keys.find(k => k.id === id);
+    if (!key) return null;
+
+    key.retiredAt = Date.now();
+    await this.kv.put(KEYS_KEY, JSON.stringify(keys));
+    return key;
+  }
+
+  /**
+   * Key used for new signatures. Keys are only created through the admin API,
+   * never while signing.
+   */
+  private async activeKey(): Promise<SigningKey | null> {
+    return (await this.listKeys()).find(k => !k.retiredAt) ?? null;
+  }
+
+  /**
+   * Build a signed URL path with its query string, or null when there is no
+   * active signing key
+   */
+  async sign(options: SignOptions): Promise<string | null> {
+    const key = await this.activeKey();
+    if (!key) return null;
+
+    const params = new URLSearchParams({
+      exp: String(options.expiresAt),
+      kid: key.id,
+    });
+
+    if (options.ip) params.set('ip', options.ip);
+    if (options.country) params.set('country', options.country);
+    if (options.methods) params.set('methods', options.methods.join(','));
+
+    params.set('sig', await hmac(key.secret, stringToSign(options)));
+    return `/${options.route}/${options.path}?${params}`;
+  }
+
+  /**
+   * Verify a request for a private asset. Returns null when it may be served.
+   */
+  async verify(request: Request, route: SignedRoute, path: string): Promise<SignatureFailure | null> {
+    const url = new URL(request.url);
+    const sig = url.searchParams.get('sig');
+    const kid = url.searchParams.get('kid');
+    const exp = url.searchParams.get('exp');
+
+    if (!sig && !kid && !exp) return 'signature_required';
+    if (!sig || !kid || !exp || !/^\d+$/.test(exp)) return 'malformed_signature';
+
+    const options: SignOptions = {
+      route,
+      path,
+      expiresAt: parseInt(exp),
+      ip: url.searchParams.get('ip') ?? undefined,
+      country: url.searchParams.get('country') ?? undefined,
+      methods: url.searchParams.get('methods')?.split(',') ?? undefined,
+    };
+
+    if (options.expiresAt * 1000 <= Date.now()) return 'signature_expired';
+
+    const key = (await this.listKeys()).find(k => k.id === kid && !k.retiredAt);
+    if (!key) return 'unknown_signing_key';
+
+    const expected = await hmac(key.secret, stringToSign(options));
+    if (!timingSafeEqual(expected, sig)) return 'invalid_signature';
+
+    // Bindings are checked only once the signature proves they weren't tampered with
+    if (options.ip && options.ip !== request.headers.get('CF-Connecting-IP')) return 'ip_mismatch';
+
+    const country = (request.cf as IncomingRequestCfProperties | undefined)?.country;
+    if (options.country && options.country.toUpperCase() !== country) return 'country_mismatch';
+
+    if (!(options.methods ?? DEFAULT_METHODS).includes(request.method)) return 'method_not_allowed';
+
+    return null;
+  }
+
+  /**
+   * Prefixes whose assets are all private
+   */
+  async getPrivatePrefixes(): Promise<string[]> {
+    const config = await this.kv.get<PrivacyConfig>(PRIVACY_KEY, { type: 'json', cacheTtl: CONFIG_CACHE_TTL });
+    return config?.prefixes ?? [];
+  }
+
+  async setPrivatePrefixes(prefixes: string[]): Promise<void> {
+    await this.kv.put(PRIVACY_KEY, JSON.stringify({ prefixes }));
+  }
+
+  /**
+   * Whether a path is private because of its prefix
+   */
+  async isPrivatePath(path: string): Promise<boolean> {
+    const prefixes = await this.getPrivatePrefixes();
+    return prefixes.some(prefix => path.startsWith(prefix));
+  }
+}
+
+/**
+ * Whether an R2 object was uploaded as private
+ */
+export function isPrivateObject(object: R2Object): boolean {
+  return object.customMetadata?.private === 'true';
+}
+
+/**
+ * 403 for a rejected signature
+ */
+export function signatureFailure(c: Context, reason: SignatureFailure): Response {
+  return c.json({ error: FAILURE_MESSAGES[reason], reason }, 403);
+}
+
+/**
+ * Cache-Control for a signed response: never shared, never outliving the URL
+ */
+export function signedCacheControl(request: Request, maxAge: number): string {
+  const exp = parseInt(new URL(request.url).searchParams.get('exp') || '0');
+  const remaining = Math.max(exp - Math.floor(Date.now() / 1000), 0);
+  return `private, max-age=${Math.min(remaining, maxAge)}`;
+}
+
+/**
+ * Signing API and admin routes. The /admin routes rely on the app-wide
+ * requireScope('admin').
+ */
+export function createSigningRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Mint a signed URL
+  app.post('/sign', requireScope('read', async (c) => {
+    const body = await c.req.json<{ path?: string }>();
+    return body.path ? [body.path.replace(/^\//, '')] : [];
+  }), async (c) => {
+    const body = await c.req.json<{
+      path: string;
+      route?: SignedRoute;
+      expiresIn?: number;
+      ip?: string;
+      country?: string;
+      methods?: string[];
+    }>();
+
+    if (!body.path) {
+      return c.json({ error: 'path required' }, 400);
+    }
+
+    const route = body.route ?? 'cdn';
+    if (route !== 'cdn' && route !== 'image') {
+      return c.json({ error: 'route must be cdn or image' }, 400);
+    }
+
+    const expiresIn = body.expiresIn ?? DEFAULT_EXPIRY;
+    if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_EXPIRY) {
+      return c.json({ error: `expiresIn must be between 1 and ${MAX_EXPIRY} seconds` }, 400);
+    }
+
+    const methods = body.methods?.map(m => m.toUpperCase());
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+
+    const url = await new UrlSigner(c.env.CACHE).sign({
+      route,
+      path: body.path.replace(/^\//, ''),
+      expiresAt,
+      ip: body.ip,
+      country: body.country?.toUpperCase(),
+      methods,
+    });
+
+    if (!url) {
+      return c.json({ error: 'No active signing key; create one with POST /admin/signing-keys' }, 503);
+    }
+
+    return c.json({ url, expiresAt: new Date(expiresAt * 1000).toISOString() });
+  });
+
+  // Private prefixes
+  app.get('/admin/private', async (c) => {
+    return c.json({ prefixes: await new UrlSigner(c.env.CACHE).getPrivatePrefixes() });
+  });
+
+  app.put('/admin/private', async (c) => {
+    const body = await c.req.json<{ prefixes: string[] }>();
+
+    if (!Array.isArray(body.prefixes) || body.prefixes.some(p => typeof p !== 'string' || !p)) {
+      return c.json({ error: 'prefixes must be a list of non-empty strings' }, 400);
+    }
+
+    await new UrlSigner(c.env.CACHE).setPrivatePrefixes(body.prefixes);
+    return c.json({ prefixes: body.prefixes });
+  });
+
+  // Signing keys (secrets are never returned)
+  app.get('/admin/signing-keys', async (c) => {
+    const keys = await new UrlSigner(c.env.CACHE).listKeys();
+    return c.json({ keys: keys.map(({ secret, ...key }) => key) });
+  });
+
+  app.post('/admin/signing-keys', async (c) => {
+    const { secret, ...key } = await new UrlSigner(c.env.CACHE).rotate();
+    return c.json({ key }, 201);
+  });
+
+  app.delete('/admin/signing-keys/:id', async (c) => {
+    const key = await new UrlSigner(c.env.CACHE).retire(c.req.param('id'));
+    if (!key) {
+      return c.json({ error: 'Signing key not found' }, 404);
+    }
+    const { secret, ...rest } = key;
+    return c.json({ retired: true, key: rest });
+  });
+
+  return app;
+}
@@ -0,0 +1,485 @@
+/**
+ * RoadCDN Tenants
+ *
+ * Host-based multi-tenancy:
+ * - Tenants are picked by Host: `<id>.<TENANT_DOMAIN>` or a verified custom domain
+ * - Each tenant gets its own slice of ASSETS (`__tenants/<id>/`) and CACHE (`t:<id>:`),
+ *   so assets, cache entries, API keys, rules and jobs never mix
+ * - Per-tenant TTLs, CORS origins and quotas
+ * - Custom domains are verified with a DNS TXT record
+ */
+
+import { Hono, MiddlewareHandler } from 'hono';
+import { AppEnv, Env } from './env';
+import { ApiKeyStore } from './auth';
+import { QuotaLimits, validLimits } from './quotas';
+
+export interface TenantConfig {
+  defaultTtl?: number;
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  corsAllowedOrigins?: string[];
+  quota?: QuotaLimits; // tenant-wide limits
+}
+
+export interface Tenant {
+  id: string;
+  name: string;
+  config: TenantConfig;
+  domains: string[]; // custom domains, verified or not
+  createdAt: number;
+}
+
+export interface TenantDomain {
+  domain: string;
+  tenantId: string;
+  token: string;
+  verified: boolean;
+  createdAt: number;
+  verifiedAt?: number;
+}
+
+// R2 prefix holding every tenant's assets
+export const TENANT_PREFIX = '__tenants/';
+
+// How long each isolate may reuse tenant and domain records read from KV
+const TENANT_CACHE_TTL = 60;
+
+// DNS record proving control of a custom domain
+const CHALLENGE_RECORD = '_roadcdn-challenge';
+const DOH_URL = 'https://cloudflare-dns.com/dns-query';
+
+// Tenant IDs double as subdomains
+const TENANT_ID = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const DOMAIN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Storage namespace of each scoped binding, for isolate-level caches
+const namespaces = new WeakMap<object, string>();
+
+// Shared namespace and tenant of each scoped KV binding
+const kvScopes = new WeakMap<object, { shared: KVNamespace; tenantId: string }>();
+
+/**
+ * Namespace a bucket is scoped to: "" for the shared one
+ */
+export function storageNamespace(bucket: R2Bucket): string {
+  return namespaces.get(bucket) ?? '';
+}
+
+/**
+ * The shared KV namespace behind a binding, and the tenant it is scoped to ("" for none)
+ */
+export function kvScope(kv: KVNamespace): { shared: KVNamespace; tenantId: string } {
+  return kvScopes.get(kv) ?? { shared: kv, tenantId: '' };
+}
+
+/**
+ * An R2 object with its key relative to the tenant prefix
+ */
+function scopedObject<T extends R2Object | null>(object: T, prefix: string): T {
+  if (!object) return object;
+  return new Proxy(object, {
+    get(target, property) {
+      if (property === 'key') return target.key.slice(prefix.length);
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+function scopedUpload(upload: R2MultipartUpload, prefix: string): R2MultipartUpload {
+  return {
+    key: upload.key.slice(prefix.length),
+    uploadId: upload.uploadId,
+    uploadPart: (...args) => upload.uploadPart(...args),
+    abort: () => upload.abort(),
+    complete: async (parts) => scopedObject(await upload.complete(parts), prefix),
+  };
+}
+
+/**
+ * R2 bucket confined to a key prefix. Keys going in and coming out are relative to it.
+ */
+function scopedBucket(bucket: R2Bucket, prefix: string): R2Bucket {
+  const scoped = {
+    head: async (key: string) => scopedObject(await bucket.head(prefix + key), prefix),
+    get: async (key: string, options?: R2GetOptions) => scopedObject(await bucket.get(prefix + key, options), prefix),
+    put: async (key: string, value: Parameters<R2Bucket['put']>[1], options?: R2PutOptions) =>
+      scopedObject(await bucket.put(prefix + key, value, options), prefix),
+    delete: (keys: string | string[]) =>
+      bucket.delete(Array.isArray(keys) ? keys.map(key => prefix + key) : prefix + keys),
+    list: async (options: R2ListOptions = {}) => {
+      const list = await bucket.list({
+        ...options,
+        prefix: prefix + (options.prefix ?? ''),
+        startAfter: options.startAfter !== undefined ? prefix + options.startAfter : undefined,
+      });
+      return {
+        ...list,
+        objects: list.objects.map(object => scopedObject(object, prefix)),
+        delimitedPrefixes: list.delimitedPrefixes.map(p => p.slice(prefix.length)),
+      };
+    },
+    createMultipartUpload: async (key: string, options?: R2MultipartOptions) =>
+      scopedUpload(await bucket.createMultipartUpload(prefix + key, options), prefix),
+    resumeMultipartUpload: (key: string, uploadId: string) =>
+      scopedUpload(bucket.resumeMultipartUpload(prefix + key, uploadId), prefix),
+  } as unknown as R2Bucket;
+
+  namespaces.set(scoped, prefix);
+  return scoped;
+}
+
+/**
+ * KV namespace confined to a key prefix
+ */
+function scopedKV(kv: KVNamespace, prefix: string, tenantId: string): KVNamespace {
+  // KV's overloads are passed through as they are
+  const get = kv.get.bind(kv) as (key: string, options?: unknown) => Promise<unknown>;
+  const getWithMetadata = kv.getWithMetadata.bind(kv) as (key: string, options?: unknown) => Promise<unknown>;
+
+  const scoped = {
+    get: (key: string, options?: unknown) => get(prefix + key, options),
+    getWithMetadata: (key: string, options?: unknown) => getWithMetadata(prefix + key, options),
+    put: (key: string, value: Parameters<KVNamespace['put']>[1], options?: KVNamespacePutOptions) =>
+      kv.put(prefix + key, value, options),
+    delete: (key: string) => kv.delete(prefix + key),
+    list: async (options: KVNamespaceListOptions = {}) => {
+      const list = await kv.list({ ...options, prefix: prefix + (options.prefix ?? '') });
+      return { ...list, keys: list.keys.map(key => ({ ...key, name: key.name.slice(prefix.length) })) };
+    },
+  } as unknown as KVNamespace;
+
+  kvScopes.set(scoped, { shared: kv, tenantId });
+  return scoped;
+}
+
+/**
+ * Bindings and configuration as a tenant sees them
+ */
+export function tenantEnv(env: Env, tenant: Tenant): Env {
+  const { config } = tenant;
+  const value = (setting: number | undefined, fallback: string | undefined) =>
+    setting !== undefined ? String(setting) : fallback;
+
+  return {
+    ...env,
+    ASSETS: scopedBucket(env.ASSETS, `${TENANT_PREFIX}${tenant.id}/`),
+    CACHE: scopedKV(env.CACHE, `t:${tenant.id}:`, tenant.id),
+    // Logs stay in the shared bucket; records carry the tenant
+    LOGS: env.LOGS ?? env.ASSETS,
+    DEFAULT_TTL: value(config.defaultTtl, env.DEFAULT_TTL)!,
+    MAX_AGE: value(config.maxAge, env.MAX_AGE)!,
+    STALE_WHILE_REVALIDATE: value(config.staleWhileRevalidate, env.STALE_WHILE_REVALIDATE),
+    STALE_IF_ERROR: value(config.staleIfError, env.STALE_IF_ERROR),
+    CORS_ALLOWED_ORIGINS: config.corsAllowedOrigins?.join(',') ?? env.CORS_ALLOWED_ORIGINS,
+  };
+}
+
+/**
+ * Tenant and domain records, kept in the shared CACHE namespace
+ */
+export class TenantStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async get(id: string, cached = false): Promise<Tenant | null> {
+    return await this.kv.get<Tenant>(`tenant:${id}`, { type: 'json', cacheTtl: cached ? TENANT_CACHE_TTL : undefined });
+  }
+
+  async list(): Promise<Tenant[]> {
+    const tenants: Tenant[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: 'tenant:', cursor });
+      for (const key of list.keys) {
+        const tenant = await this.kv.get<Tenant>(key.name, 'json');
+        if (tenant) tenants.push(tenant);
+      }
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    return tenants;
+  }
+
+  async save(tenant: Tenant): Promise<void> {
+    await this.kv.put(`tenant:${tenant.id}`, JSON.stringify(tenant));
+  }
+
+  /**
+   * Remove a tenant and release its domains. Its stored data is left in place,
+   * so the id is retired for good: a new tenant under it would inherit that data.
+   */
+  async remove(tenant: Tenant): Promise<void> {
+    await Promise.all(tenant.domains.map(domain => this.kv.delete(`domain:${domain}`)));
+    await this.kv.put(`tenant-retired:${tenant.id}`, String(Date.now()));
+    await this.kv.delete(`tenant:${tenant.id}`);
+  }
+
+  /**
+   * Whether the id belonged to a removed tenant
+   */
+  async isRetired(id: string): Promise<boolean> {
+    return await this.kv.get(`tenant-retired:${id}`) !== null;
+  }
+
+  async getDomain(domain: string, cached = false): Promise<TenantDomain | null> {
+    return await this.kv.get<TenantDomain>(`domain:${domain}`, {
+      type: 'json',
+      cacheTtl: cached ? TENANT_CACHE_TTL : undefined,
+    });
+  }
+
+  async saveDomain(record: TenantDomain): Promise<void> {
+    await this.kv.put(`domain:${record.domain}`, JSON.stringify(record));
+  }
+
+  async removeDomain(record: TenantDomain): Promise<void> {
+    await this.kv.delete(`domain:${record.domain}`);
+  }
+
+  /**
+   * Tenant serving a Host header. `undefined` for hosts that belong to no
+   * tenant; null for a tenant subdomain nobody registered.
+   */
+  async forHost(host: string, tenantDomain?: string): Promise<Tenant | null | undefined> {
+    const hostname = host.split(':')[0].toLowerCase();
+
+    if (tenantDomain && hostname.endsWith(`.${tenantDomain}`)) {
+      const id = hostname.slice(0, -tenantDomain.length - 1);
+      return TENANT_ID.test(id) ? await this.get(id, true) : null;
+    }
+
+    const domain = await this.getDomain(hostname, true);
+    if (!domain?.verified) return undefined;
+    return (await this.get(domain.tenantId, true)) ?? undefined;
+  }
+}
+
+/**
+ * Whether the domain's challenge TXT record carries the token
+ */
+async function verifyDomain(record: TenantDomain): Promise<boolean> {
+  const url = `${DOH_URL}?name=${encodeURIComponent(`${CHALLENGE_RECORD}.${record.domain}`)}&type=TXT`;
+  const response = await fetch(url, { headers: { Accept: 'application/dns-json' } });
+  if (!response.ok) return false;
+
+  const answer = await response.json<{ Answer?: { data: string }[] }>();
+  return (answer.Answer ?? []).some(a => a.data.replace(/"/g, '') === `roadcdn-verify=${record.token}`);
+}
+
+function challenge(record: TenantDomain) {
+  return { type: 'TXT', name: `${CHALLENGE_RECORD}.${record.domain}`, value: `roadcdn-verify=${record.token}` };
+}
+
+/**
+ * Point the request at its tenant's bindings and configuration. Registered
+ * before anything that reads the environment.
+ */
+export function tenancy(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const tenant = await new TenantStore(c.env.CACHE).forHost(c.req.header('Host') || '', c.env.TENANT_DOMAIN);
+
+    if (tenant === null) {
+      return c.json({ error: 'Unknown tenant' }, 404);
+    }
+
+    if (tenant) {
+      c.set('tenant', tenant);
+      c.env = tenantEnv(c.env, tenant);
+    }
+
+    await next();
+  };
+}
+
+function validConfig(config: TenantConfig): boolean {
+  const seconds = [config.defaultTtl, config.maxAge, config.staleWhileRevalidate, config.staleIfError];
+  return seconds.every(s => s === undefined || (Number.isInteger(s) && s >= 0))
+    && (config.corsAllowedOrigins === undefined
+      || (Array.isArray(config.corsAllowedOrigins) && config.corsAllowedOrigins.every(o => typeof o === 'string')))
+    && (config.quota === undefined || validLimits(config.quota));
+}
+
+/**
+ * Tenant admin routes. They rely on the app-wide requireScope('admin') and
+ * are only served on the shared host, never to a tenant.
+ */
+export function createTenantRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  const sharedHostOnly: MiddlewareHandler<AppEnv> = async (c, next) => {
+    if (c.get('tenant')) return c.json({ error: 'Not found' }, 404);
+    await next();
+  };
+  app.use('/admin/tenants', sharedHostOnly);
+  app.use('/admin/tenants/*', sharedHostOnly);
+
+  app.get('/admin/tenants', async (c) => {
+    return c.json({ tenants: await new TenantStore(c.env.CACHE).list() });
+  });
+
+  // Register a tenant and issue its first admin key
+  app.post('/admin/tenants', async (c) => {
+    const body = await c.req.json<{ id: string; name?: string; config?: TenantConfig }>();
+    const id = (body.id || '').toLowerCase();
+
+    if (!TENANT_ID.test(id)) {
+      return c.json({ error: 'id must be a DNS label: lowercase letters, digits and hyphens' }, 400);
+    }
+    if (body.config && !validConfig(body.config)) {
+      return c.json({ error: 'config TTLs must be whole seconds; corsAllowedOrigins a list of origins; quota limits whole numbers' }, 400);
+    }
+
+    const store = new TenantStore(c.env.CACHE);
+    if (await store.get(id)) {
+      return c.json({ error: 'Tenant already exists' }, 409);
+    }
+    if (await store.isRetired(id)) {
+      return c.json({ error: 'Tenant id belonged to a deleted tenant and can\'t be reused' }, 409);
+    }
+
+    const tenant: Tenant = { id, name: body.name || id, config: body.config ?? {}, domains: [], createdAt: Date.now() };
+    await store.save(tenant);
+
+    // Keys live in the tenant's own namespace and only work on its hosts
+    const { key, secret } = await new ApiKeyStore(tenantEnv(c.env, tenant).CACHE).issue({
+      name: `${id} admin`,
+      scopes: ['admin'],
+    });
+
+    return c.json({
+      tenant,
+      host: c.env.TENANT_DOMAIN ? `${id}.${c.env.TENANT_DOMAIN}` : undefined,
+      adminKey: { id: key.id, secret },
+    }, 201);
+  });
+
+  app.get('/admin/tenants/:id', async (c) => {
+    const store = new TenantStore(c.env.CACHE);
+    const tenant = await store.get(c.req.param('id'));
+    if (!tenant) {
+      return c.json({ error: 'Tenant not found' }, 404);
+    }
+
+    const domains = await Promise.all(tenant.domains.map(domain => store.getDomain(domain)));
+    return c.json({
+      tenant,
+      domains: domains.filter(d => d !== null).map(d => ({ ...d, challenge: d.verified ? undefined : challenge(d) })),
+    });
+  });
+
+  app.put('/admin/tenants/:id/config', async (c) => {
+    const config = await c.req.json<TenantConfig>();
+    if (!validConfig(config)) {
+      return c.json({ error: 'config TTLs must be whole seconds; corsAllowedOrigins a list of origins; quota limits whole numbers' }, 400);
+    }
+
+    const store = new TenantStore(c.env.CACHE);
+    const tenant = await store.get(c.req.param('id'));
+    if (!tenant) {
+      return c.json({ error: 'Tenant not found' }, 404);
+    }
+
+    tenant.config = config;
+    await store.save(tenant);
+    return c.json({ tenant });
+  });
+
+  app.delete('/admin/tenants/:id', async (c) => {
+    const store = new TenantStore(c.env.CACHE);
+    const tenant = await store.get(c.req.param('id'));
+    if (!tenant) {
+      return c.json({ error: 'Tenant not found' }, 404);
+    }
+
+    // Its keys stop working at once, rather than lingering with the data
+    const revokedKeys = await new ApiKeyStore(tenantEnv(c.env, tenant).CACHE).revokeAll();
+    await store.remove(tenant);
+    return c.json({ deleted: true, id: tenant.id, revokedKeys, dataPrefix: `${TENANT_PREFIX}${tenant.id}/` });
+  });
+
+  // Claim a custom domain; it serves the tenant once verified
+  app.post('/admin/tenants/:id/domains', async (c) => {
+    const body = await c.req.json<{ domain: string }>();
+    const domain = (body.domain || '').toLowerCase().replace(/\.$/, '');
+
+    if (!DOMAIN.test(domain)) {
+      return c.json({ error: 'domain must be a hostname such as cdn.example.com' }, 400);
+    }
+    if (c.env.TENANT_DOMAIN && (domain === c.env.TENANT_DOMAIN || domain.endsWith(`.${c.env.TENANT_DOMAIN}`))) {
+      return c.json({ error: `Subdomains of ${c.env.TENANT_DOMAIN} are assigned automatically` }, 400);
+    }
+
+    const store = new TenantStore(c.env.CACHE);
+    const tenant = await store.get(c.req.param('id'));
+    if (!tenant) {
+      return c.json({ error: 'Tenant not found' }, 404);
+    }
+
+    const existing = await store.getDomain(domain);
+    if (existing && existing.tenantId !== tenant.id) {
+      return c.json({ error: 'Domain belongs to another tenant' }, 409);
+    }
+
+    const record: TenantDomain = existing ?? {
+      domain,
+      tenantId: tenant.id,
+      token: crypto.randomUUID().replace(/-/g, ''),
+      verified: false,
+      createdAt: Date.now(),
+    };
+    await store.saveDomain(record);
+
+    if (!tenant.domains.includes(domain)) {
+      tenant.domains.push(domain);
+      await store.save(tenant);
+    }
+
+    return c.json({ domain: record, challenge: record.verified ? undefined : challenge(record) }, existing ? 200 : 201);
+  });
+
+  app.post('/admin/tenants/:id/domains/:domain/verify', async (c) => {
+    const store = new TenantStore(c.env.CACHE);
+    const record = await store.getDomain(c.req.param('domain').toLowerCase());
+
+    if (!record || record.tenantId !== c.req.param('id')) {
+      return c.json({ error: 'Domain not found' }, 404);
+    }
+
+    if (!record.verified) {
+      if (!await verifyDomain(record)) {
+        return c.json({ error: 'Challenge record not found', challenge: challenge(record) }, 422);
+      }
+
+      record.verified = true;
+      record.verifiedAt = Date.now();
+      await store.saveDomain(record);
+    }
+
+    return c.json({ domain: record });
+  });
+
+  app.delete('/admin/tenants/:id/domains/:domain', async (c) => {
+    const store = new TenantStore(c.env.CACHE);
+    const record = await store.getDomain(c.req.param('domain').toLowerCase());
+    const tenant = await store.get(c.req.param('id'));
+
+    if (!record || !tenant || record.tenantId !== tenant.id) {
+      return c.json({ error: 'Domain not found' }, 404);
+    }
+
+    await store.removeDomain(record);
+    tenant.domains = tenant.domains.filter(domain => domain !== record.domain);
+    await store.save(tenant);
+
+    return c.json({ deleted: true, domain: record.domain });
+  });
+
+  return app;
+}
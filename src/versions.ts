@@ -0,0 +1,366 @@
+/**
+ * RoadCDN Version History
+ *
+ * Features:
+ * - Every overwrite and delete keeps the previous version (`__versions/<path>/<id>`)
+ * - Retention per prefix: version count and age limits
+ * - List versions, fetch one by ID, roll back or undelete in one call
+ */
+
+import { Hono, Context } from 'hono';
+import { AppEnv } from './env';
+import { requireScope } from './auth';
+import { invalidateAsset } from './cache';
+import { TagIndex, objectTags } from './purge';
+import { FingerprintStore } from './fingerprint';
+import { forgetSiteFiles } from './hosting';
+import { Coalescer } from './coalesce';
+
+export const VERSION_PREFIX = '__versions/';
+
+export interface RetentionRule {
+  prefix: string;
+  maxVersions?: number; // 0 turns versioning off
+  maxAgeDays?: number;
+}
+
+interface RetentionConfig {
+  rules: RetentionRule[];
+}
+
+export interface AssetVersion {
+  id: string;
+  etag: string;
+  size: number;
+  contentType?: string;
+  uploaded: string;
+  archivedAt?: string;
+  current: boolean;
+}
+
+const RETENTION_KEY = 'cdn:version-retention';
+
+// Applies when no retention rule matches
+const DEFAULT_MAX_VERSIONS = 10;
+
+// Custom metadata fields added to archived copies
+const ARCHIVE_FIELDS = ['versionOf', 'versionUploaded', 'archivedAt'];
+
+/**
+ * Version ID of an object: upload time, then etag, so IDs sort by age
+ */
+export function versionId(object: R2Object): string {
+  return `${object.uploaded.getTime().toString(36).padStart(9, '0')}-${object.etag.slice(0, 8)}`;
+}
+
+function versionKey(path: string, id: string): string {
+  return `${VERSION_PREFIX}${path}/${id}`;
+}
+
+/**
+ * Copy an object to a new key, keeping its metadata
+ */
+async function copyObject(
+  bucket: R2Bucket,
+  source: R2Object,
+  key: string,
+  customMetadata: Record<string, string>,
+): Promise<R2Object | null> {
+  const object = await bucket.get(source.key, { onlyIf: { etagMatches: source.etag } });
+  if (!object || !('body' in object)) return null;
+
+  // R2 needs a known length to store a stream
+  const { readable, writable } = new FixedLengthStream(source.size);
+  const piping = (object as R2ObjectBody).body.pipeTo(writable);
+
+  const [copy] = await Promise.all([
+    bucket.put(key, readable, { httpMetadata: source.httpMetadata, customMetadata }),
+    piping,
+  ]);
+  return copy;
+}
+
+/**
+ * Version storage and retention for assets in R2
+ */
+export class VersionStore {
+  private bucket: R2Bucket;
+  private kv: KVNamespace;
+
+  constructor(bucket: R2Bucket, kv: KVNamespace) {
+    this.bucket = bucket;
+    this.kv = kv;
+  }
+
+  async getRetention(): Promise<RetentionRule[]> {
+    const config = await this.kv.get<RetentionConfig>(RETENTION_KEY, { type: 'json', cacheTtl: 60 });
+    return config?.rules ?? [];
+  }
+
+  async setRetention(rules: RetentionRule[]): Promise<void> {
+    await this.kv.put(RETENTION_KEY, JSON.stringify({ rules }));
+  }
+
+  /**
+   * Retention for a path: the longest matching prefix wins
+   */
+  async retentionFor(path: string): Promise<Omit<RetentionRule, 'prefix'>> {
+    const rule = (await this.getRetention())
+      .filter(r => path.startsWith(r.prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+    return { maxVersions: rule?.maxVersions ?? DEFAULT_MAX_VERSIONS, maxAgeDays: rule?.maxAgeDays };
+  }
+
+  /**
+   * Keep a copy of the live object before it is overwritten or deleted.
+   * Archiving the same version twice is harmless: it lands on the same key.
+   */
+  async archive(current: R2Object | null): Promise<AssetVersion | null> {
+    // Generated compression variants are rebuilt on demand, never versioned
+    if (!current || current.customMetadata?.generated === 'true') return null;
+
+    const path = current.key;
+
+    const retention = await this.retentionFor(path);
+    if (retention.maxVersions === 0) return null;
+
+    const id = versionId(current);
+    const copy = await copyObject(this.bucket, current, versionKey(path, id), {
+      ...current.customMetadata,
+      versionOf: path,
+      versionUploaded: String(current.uploaded.getTime()),
+      archivedAt: String(Date.now()),
+    });
+    if (!copy) return null;
+
+    await this.prune(path, retention);
+    return toVersion(id, copy, false);
+  }
+
+  /**
+   * All versions of an asset, newest first. The live object is marked current.
+   */
+  async list(path: string): Promise<AssetVersion[]> {
+    const versions: AssetVersion[] = [];
+    let cursor: string | undefined;
+
+    do {
+      // The delimiter keeps versions of nested assets (path/child) out.
+      // `include` is missing from some versions of the R2 types.
+      const list = await this.bucket.list({
+        prefix: `${VERSION_PREFIX}${path}/`,
+        delimiter: '/',
+        include: ['httpMetadata', 'customMetadata'],
+        cursor,
+      } as R2ListOptions);
+
+      for (const object of list.objects) {
+        versions.push(toVersion(object.key.split('/').pop()!, object, false));
+      }
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+
+    const current = await this.bucket.head(path);
+    if (current) {
+      const id = versionId(current);
+      const archived = versions.findIndex(v => v.id === id);
+      if (archived !== -1) versions.splice(archived, 1);
+      versions.push(toVersion(id, current, true));
+    }
+
+    return versions.sort((a, b) => b.id.localeCompare(a.id));
+  }
+
+  /**
+   * One version's object, archived or live
+   */
+  async get(path: string, id: string): Promise<R2ObjectBody | null> {
+    const current = await this.bucket.head(path);
+    if (current && versionId(current) === id) {
+      return await this.bucket.get(path);
+    }
+    return await this.bucket.get(versionKey(path, id));
+  }
+
+  /**
+   * Make a version live again. Without an ID, restores the newest archived
+   * version; callers only do so for deleted assets (undelete). The version
+   * being replaced is archived first.
+   */
+  async restore(path: string, id?: string): Promise<{ object: R2Object; previous: R2Object | null } | null> {
+    const target = id ?? (await this.list(path)).find(v => !v.current)?.id;
+    if (!target) return null;
+
+    const version = await this.bucket.head(versionKey(path, target));
+    if (!version) return null;
+
+    const previous = await this.bucket.head(path);
+    await this.archive(previous);
+
+    const customMetadata = Object.fromEntries(
+      Object.entries(version.customMetadata ?? {}).filter(([field]) => !ARCHIVE_FIELDS.includes(field)),
+    );
+    const object = await copyObject(this.bucket, version, path, customMetadata);
+    if (!object) return null;
+
+    return { object, previous };
+  }
+
+  /**
+   * Drop versions beyond the retention limits
+   */
+  private async prune(path: string, retention: Omit<RetentionRule, 'prefix'>): Promise<void> {
+    const archived = (await this.list(path)).filter(v => !v.current);
+    const maxAge = retention.maxAgeDays ? Date.now() - retention.maxAgeDays * 86400 * 1000 : 0;
+
+    const expired = archived.filter((version, index) =>
+      (retention.maxVersions !== undefined && index >= retention.maxVersions)
+      || (version.archivedAt !== undefined && Date.parse(version.archivedAt) < maxAge));
+
+    if (expired.length > 0) {
+      await this.bucket.delete(expired.map(version => versionKey(path, version.id)));
+    }
+  }
+}
+
+function toVersion(id: string, object: R2Object, current: boolean): AssetVersion {
+  const { archivedAt, versionUploaded } = object.customMetadata ?? {};
+  return {
+    id,
+    etag: object.httpEtag,
+    size: object.size,
+    contentType: object.httpMetadata?.contentType,
+    // Archived copies remember when the version itself was uploaded
+    uploaded: (versionUploaded ? new Date(parseInt(versionUploaded)) : object.uploaded).toISOString(),
+    archivedAt: archivedAt ? new Date(parseInt(archivedAt)).toISOString() : undefined,
+    current,
+  };
+}
+
+/**
+ * Asset path a version request names
+ */
+function versionPath(c: Context<AppEnv>): string {
+  return (c.req.query('path') || '').replace(/^\//, '');
+}
+
+/**
+ * Bring caches, the tag index, site files and the manifest in line after an
+ * asset was restored, as after an upload
+ */
+async function afterRestore(c: Context<AppEnv>, path: string, object: R2Object, previous: R2Object | null): Promise<void> {
+  await new TagIndex(c.env.CACHE).update(path, objectTags(object), objectTags(previous));
+  await invalidateAsset(c.env.CACHE, path);
+  forgetSiteFiles(c.env.ASSETS, path);
+
+  if (object.customMetadata?.fingerprint || previous?.customMetadata?.fingerprint) {
+    const fingerprints = new FingerprintStore(c.env.ASSETS, c.env.CACHE);
+    const locks = new Coalescer(c.env.LOCKS, c.executionCtx, c.get('tenant')?.id);
+    c.executionCtx.waitUntil(fingerprints.refreshManifest(path, locks));
+  }
+}
+
+/**
+ * Version history routes
+ */
+export function createVersionRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // List an asset's versions
+  app.get('/versions', requireScope('read', c => [versionPath(c)]), async (c) => {
+    const path = versionPath(c);
+    if (!path) {
+      return c.json({ error: 'path query parameter required' }, 400);
+    }
+
+    const versions = await new VersionStore(c.env.ASSETS, c.env.CACHE).list(path);
+    return c.json({ path, deleted: !versions.some(v => v.current), versions });
+  });
+
+  // Fetch one version
+  app.get('/versions/:id', requireScope('read', c => [versionPath(c)]), async (c) => {
+    const path = versionPath(c);
+    if (!path) {
+      return c.json({ error: 'path query parameter required' }, 400);
+    }
+
+    const object = await new VersionStore(c.env.ASSETS, c.env.CACHE).get(path, c.req.param('id'));
+    if (!object) {
+      return c.json({ error: 'Version not found' }, 404);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+      'Content-Length': String(object.size),
+      'ETag': object.httpEtag,
+      'Cache-Control': 'no-store',
+      'X-Version-Id': c.req.param('id'),
+    };
+    if (object.httpMetadata?.contentEncoding) {
+      headers['Content-Encoding'] = object.httpMetadata.contentEncoding;
+    }
+
+    return new Response(object.body, {
+      headers,
+      encodeBody: object.httpMetadata?.contentEncoding ? 'manual' : 'automatic',
+    });
+  });
+
+  // Roll back to a version, or undelete without one
+  app.post('/versions/restore', requireScope('write', async (c) => {
+    const body = await c.req.json<{ path?: string }>();
+    return [(body.path || '').replace(/^\//, '')];
+  }), async (c) => {
+    const body = await c.req.json<{ path: string; versionId?: string }>();
+    const path = (body.path || '').replace(/^\//, '');
+
+    if (!path) {
+      return c.json({ error: 'path required' }, 400);
+    }
+
+    // Without a versionId, restore only undeletes; rolling back a live asset names the version
+    if (!body.versionId && await c.env.ASSETS.head(path)) {
+      return c.json({ error: 'versionId required: the asset exists' }, 409);
+    }
+
+    const result = await new VersionStore(c.env.ASSETS, c.env.CACHE).restore(path, body.versionId);
+    if (!result) {
+      return c.json({ error: body.versionId ? 'Version not found' : 'No earlier version to restore' }, 404);
+    }
+
+    await afterRestore(c, path, result.object, result.previous);
+
+    return c.json({
+      path,
+      restored: body.versionId ?? 'latest',
+      versionId: versionId(result.object),
+      etag: result.object.etag,
+      undeleted: !result.previous,
+    });
+  });
+
+  // Retention rules
+  app.get('/admin/versions/retention', async (c) => {
+    const rules = await new VersionStore(c.env.ASSETS, c.env.CACHE).getRetention();
+    return c.json({ rules, default: { maxVersions: DEFAULT_MAX_VERSIONS } });
+  });
+
+  app.put('/admin/versions/retention', async (c) => {
+    const body = await c.req.json<{ rules: RetentionRule[] }>();
+
+    const invalid = !Array.isArray(body.rules) || body.rules.some(rule =>
+      typeof rule.prefix !== 'string'
+      || (rule.maxVersions !== undefined && (!Number.isInteger(rule.maxVersions) || rule.maxVersions < 0))
+      || (rule.maxAgeDays !== undefined && (typeof rule.maxAgeDays !== 'number' || rule.maxAgeDays <= 0)));
+
+    if (invalid) {
+      return c.json({ error: 'rules must be a list of { prefix, maxVersions?, maxAgeDays? }' }, 400);
+    }
+
+    await new VersionStore(c.env.ASSETS, c.env.CACHE).setRetention(body.rules);
+    return c.json({ rules: body.rules });
+  });
+
+  return app;
+}
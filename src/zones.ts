@@ -0,0 +1,284 @@
+/**
+ * RoadCDN Pull Zones
+ *
+ * Named reverse proxies for configured origins, served at /zone/<name>/*:
+ * - Request paths map onto the origin's base URL, which never appears in links
+ * - Per-zone request header rewrites, cache policy and query-string handling
+ * - Origin statuses pass through, redirects under the base mapped back onto the zone
+ */
+
+import { Hono, Context } from 'hono';
+import { AppEnv } from './env';
+import { ProxyGuard, proxyFailure } from './proxy';
+import { ProxyCachePolicy, HeaderRewrites } from './proxy-cache';
+import { PurgeJobManager, purgeBudget, BACKGROUND_BUDGET } from './purge';
+
+/**
+ * include: the query as sent; sort: parameters sorted, so their order doesn't
+ * split the cache; ignore: dropped from the origin request and the cache key
+ */
+export type QueryStringMode = 'include' | 'sort' | 'ignore';
+
+export interface ZoneConfig {
+  name: string; // served at /zone/<name>/
+  origin: string; // base URL request paths are appended to, e.g. "https://docs.example.com/v2/"
+  requestHeaders?: HeaderRewrites; // applied to what is sent to the origin
+  cache?: ProxyCachePolicy;
+  queryString?: QueryStringMode; // default include
+  queryParams?: string[]; // when set, every other parameter is dropped
+}
+
+export interface ZoneTarget {
+  url: string; // origin URL
+  key: string; // cache key
+}
+
+// One KV key per zone, so edits to different zones never overwrite each other
+const ZONE_PREFIX = 'zone-config:';
+
+const QUERY_STRING_MODES: QueryStringMode[] = ['include', 'sort', 'ignore'];
+
+// Headers the worker sets itself; rewriting them would break fetching or caching
+const PROTECTED_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding', 'if-none-match', 'if-modified-since'];
+
+/**
+ * Origin base URL, normalized and ending with a slash
+ */
+function base(zone: ZoneConfig): string {
+  const { href } = new URL(zone.origin);
+  return href.endsWith('/') ? href : `${href}/`;
+}
+
+/**
+ * The allowlist entry a zone's origin is fetched under
+ */
+export function zoneOrigin(zone: ZoneConfig): string {
+  return new URL(zone.origin).host;
+}
+
+/**
+ * Query string forwarded to the origin and keyed on, with its `?`
+ */
+export function zoneQuery(zone: ZoneConfig, search: string): string {
+  if (zone.queryString === 'ignore') return '';
+
+  // Untouched, so encodings like %20 and bare flags like ?debug reach the origin as sent
+  if (zone.queryString !== 'sort' && !zone.queryParams) return search;
+
+  let params = [...new URLSearchParams(search)];
+  if (zone.queryParams) {
+    params = params.filter(([name]) => zone.queryParams!.includes(name));
+  }
+  if (zone.queryString === 'sort') {
+    params.sort(([a, x], [b, y]) => a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0);
+  }
+
+  const query = new URLSearchParams(params).toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Origin URL and cache key for a path within a zone, or null when the path
+ * would leave the origin's base (e.g. through encoded dot segments)
+ */
+export function zoneTarget(zone: ZoneConfig, path: string, search: string): ZoneTarget | null {
+  const root = base(zone);
+  const query = zoneQuery(zone, search);
+
+  let url: URL;
+  try {
+    url = new URL(`${root}${path}${query}`);
+  } catch {
+    return null;
+  }
+  if (!url.href.startsWith(root)) return null;
+
+  return { url: url.href, key: `zone:${zone.name}/${url.href.slice(root.length)}` };
+}
+
+/**
+ * Location of an origin redirect as the client should see it: targets under
+ * the origin's base are mapped onto the zone, others are left alone
+ */
+export function zoneLocation(zone: ZoneConfig, location: string, target: string): string {
+  const root = base(zone);
+
+  let url: URL;
+  try {
+    url = new URL(location, target);
+  } catch {
+    return location;
+  }
+
+  return url.href.startsWith(root) ? `/zone/${zone.name}/${url.href.slice(root.length)}` : url.href;
+}
+
+function validPolicy(policy: ProxyCachePolicy): boolean {
+  return [policy.ttl, policy.staleWhileRevalidate, policy.staleIfError]
+    .every(value => value === undefined || (Number.isInteger(value) && value >= 0))
+    && [policy.override, policy.bypass].every(flag => flag === undefined || typeof flag === 'boolean');
+}
+
+/**
+ * Problems with a zone, empty when it is valid
+ */
+export function validateZone(zone: ZoneConfig): string[] {
+  const errors: string[] = [];
+
+  if (typeof zone.name !== 'string' || !/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(zone.name)) {
+    errors.push('name must be lowercase letters, digits and dashes');
+  }
+
+  let origin: URL | null = null;
+  try {
+    origin = new URL(zone.origin);
+  } catch {
+    // reported below
+  }
+  if (!origin || (origin.protocol !== 'http:' && origin.protocol !== 'https:')
+    || origin.username || origin.password || origin.search || origin.hash) {
+    errors.push('origin must be an http(s) URL without credentials, query or fragment');
+  }
+
+  const set = zone.requestHeaders?.set ?? {};
+  const removed = zone.requestHeaders?.remove ?? [];
+  const names = Array.isArray(removed) ? [...Object.keys(set), ...removed] : [];
+  if (!Array.isArray(removed) || typeof set !== 'object'
+    || !names.every(name => typeof name === 'string' && /^[!#$%&'*+.^_`|~0-9a-z-]+$/i.test(name))
+    || !Object.values(set).every(value => typeof value === 'string')) {
+    errors.push('requestHeaders must be { set?: { name: value }, remove?: [name] }');
+  } else if (names.some(name => PROTECTED_HEADERS.includes(name.toLowerCase()))) {
+    errors.push(`requestHeaders can't rewrite ${PROTECTED_HEADERS.join(', ')}`);
+  }
+
+  if (zone.cache !== undefined && !validPolicy(zone.cache)) {
+    errors.push('cache must be { ttl?, staleWhileRevalidate?, staleIfError? (whole seconds), override?, bypass? }');
+  }
+  if (zone.queryString !== undefined && !QUERY_STRING_MODES.includes(zone.queryString)) {
+    errors.push(`queryString must be one of ${QUERY_STRING_MODES.join(', ')}`);
+  }
+  if (zone.queryParams !== undefined
+    && (!Array.isArray(zone.queryParams) || !zone.queryParams.every(p => typeof p === 'string'))) {
+    errors.push('queryParams must be a list of parameter names');
+  }
+
+  return errors;
+}
+
+/**
+ * Pull zone configuration, kept in KV
+ */
+export class ZoneStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async list(): Promise<ZoneConfig[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const list = await this.kv.list({ prefix: ZONE_PREFIX, cursor });
+      names.push(...list.keys.map(key => key.name.slice(ZONE_PREFIX.length)));
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor);
+
+    const zones = await Promise.all(names.map(name => this.get(name, true)));
+    return zones.filter((zone): zone is ZoneConfig => zone !== null);
+  }
+
+  /**
+   * One zone. Reads on the serving path may be up to a minute old.
+   */
+  async get(name: string, fresh = false): Promise<ZoneConfig | null> {
+    return await this.kv.get<ZoneConfig>(`${ZONE_PREFIX}${name}`, { type: 'json', cacheTtl: fresh ? undefined : 60 });
+  }
+
+  async save(zone: ZoneConfig): Promise<void> {
+    await this.kv.put(`${ZONE_PREFIX}${zone.name}`, JSON.stringify(zone));
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.kv.delete(`${ZONE_PREFIX}${name}`);
+  }
+}
+
+/**
+ * Purge a zone's cached responses in the background, as a purge job of
+ * `zone/<name>/`, once they no longer match its origin
+ */
+function purgeZone(c: Context<AppEnv>, name: string): void {
+  const jobs = new PurgeJobManager(c.env.CACHE, c.env.LOCKS);
+  c.executionCtx.waitUntil(jobs.create({ prefixes: [`zone/${name}/`] }, c.get('apiKey')?.id)
+    .then(job => jobs.run(job.id, purgeBudget(BACKGROUND_BUDGET))));
+}
+
+/**
+ * Pull zone admin routes. They rely on the app-wide requireScope('admin').
+ */
+export function createZoneRoutes(): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  app.get('/admin/zones', async (c) => {
+    return c.json({ zones: await new ZoneStore(c.env.CACHE).list() });
+  });
+
+  app.get('/admin/zones/:name', async (c) => {
+    const zone = await new ZoneStore(c.env.CACHE).get(c.req.param('name'), true);
+    if (!zone) return c.json({ error: 'Zone not found' }, 404);
+    return c.json(zone);
+  });
+
+  // Create or replace a zone
+  app.put('/admin/zones/:name', async (c) => {
+    const body = await c.req.json<Omit<ZoneConfig, 'name'>>();
+    const zone: ZoneConfig = {
+      name: c.req.param('name'),
+      origin: body.origin,
+      requestHeaders: body.requestHeaders,
+      cache: body.cache,
+      queryString: body.queryString,
+      queryParams: body.queryParams,
+    };
+
+    const errors = validateZone(zone);
+    if (errors.length > 0) {
+      return c.json({ error: 'Invalid zone', details: errors }, 400);
+    }
+
+    // Origins on private or reserved addresses are refused up front
+    const refused = await new ProxyGuard(c.env.CACHE).check(zone.origin, [zoneOrigin(zone)]);
+    if (refused) {
+      return proxyFailure(c, refused);
+    }
+
+    const store = new ZoneStore(c.env.CACHE);
+    const existing = await store.get(zone.name, true);
+    await store.save(zone);
+
+    // Responses cached from the old origin would otherwise be served until they expire
+    if (existing && base(existing) !== base(zone)) {
+      purgeZone(c, zone.name);
+    }
+
+    return c.json(zone, existing ? 200 : 201);
+  });
+
+  app.delete('/admin/zones/:name', async (c) => {
+    const name = c.req.param('name');
+    const store = new ZoneStore(c.env.CACHE);
+
+    if (!await store.get(name, true)) {
+      return c.json({ error: 'Zone not found' }, 404);
+    }
+
+    // A zone created again under the name must not serve this one's responses
+    await store.remove(name);
+    purgeZone(c, name);
+    return c.json({ deleted: true, name });
+  });
+
+  return app;
+}